@@ -0,0 +1,40 @@
+'use client';
+
+import { GARMENT_CATALOG, PLANNED_GARMENTS, type GarmentDefinition } from '../lib/garments';
+
+interface GarmentPickerProps {
+  selected: GarmentDefinition;
+  onSelect: (garment: GarmentDefinition) => void;
+  className?: string;
+}
+
+export default function GarmentPicker({ selected, onSelect, className = '' }: GarmentPickerProps) {
+  return (
+    <div className={`grid grid-cols-2 gap-2 ${className}`}>
+      {GARMENT_CATALOG.map((garment) => (
+        <button
+          key={garment.id}
+          onClick={() => onSelect(garment)}
+          className={`p-3 rounded-lg border-2 text-center transition-colors ${selected.id === garment.id
+            ? 'border-pink-500 bg-pink-50'
+            : 'border-gray-200 hover:border-gray-300'
+            }`}
+        >
+          <div className="text-2xl mb-1">{garment.icon}</div>
+          <div className="text-sm font-medium text-gray-800">{garment.name}</div>
+        </button>
+      ))}
+      {PLANNED_GARMENTS.map((garment) => (
+        <div
+          key={garment.id}
+          className="p-3 rounded-lg border-2 border-dashed border-gray-200 text-center opacity-60 cursor-not-allowed"
+          title="This model hasn't shipped yet"
+        >
+          <div className="text-2xl mb-1 grayscale">{garment.icon}</div>
+          <div className="text-sm font-medium text-gray-800">{garment.name}</div>
+          <div className="text-xs text-gray-500">Model coming soon</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { describeUvLayoutIssues, drawUvLayout, type MeshReport, type ModelReport } from '../lib/modelDiagnostics';
+import { loadZoneMask } from '../lib/zoneMasks';
+import type { GarmentDefinition, PrintZone } from '../lib/garments';
+
+interface ModelInspectorProps {
+  garment: GarmentDefinition;
+  report: ModelReport | null;
+  onClose: () => void;
+  className?: string;
+}
+
+const UV_PREVIEW_SIZE = 160;
+
+function formatSize(mesh: MeshReport) {
+  return [mesh.size.x, mesh.size.y, mesh.size.z].map((value) => value.toFixed(2)).join(' × ');
+}
+
+// The zone mesh's UV wireframe over its printable-area mask (generated, or the PNG
+// override), so an override that doesn't line up with the unwrap is obvious at a glance
+function ZoneUvPreview({ zone, mesh }: { zone: PrintZone; mesh?: MeshReport }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !mesh) return;
+    let cancelled = false;
+
+    const draw = (mask?: HTMLCanvasElement) => {
+      if (cancelled) return;
+      ctx.fillStyle = '#f9fafb';
+      ctx.fillRect(0, 0, UV_PREVIEW_SIZE, UV_PREVIEW_SIZE);
+      if (mask) {
+        ctx.globalAlpha = 0.35;
+        ctx.drawImage(mask, 0, 0, UV_PREVIEW_SIZE, UV_PREVIEW_SIZE);
+        ctx.globalAlpha = 1;
+      }
+      drawUvLayout(ctx, mesh.mesh.geometry);
+    };
+
+    draw();
+    loadZoneMask(zone, mesh.mesh).then(draw);
+    return () => {
+      cancelled = true;
+    };
+  }, [zone, mesh]);
+
+  const layoutIssues = mesh?.uvLayout ? describeUvLayoutIssues(mesh.uvLayout) : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-medium text-gray-700">{zone.label}</span>
+        <span className="text-gray-400">{zone.mask ? 'PNG mask' : 'UV mask'}</span>
+      </div>
+      {mesh ? (
+        mesh.uvSets.length ? (
+          <canvas
+            ref={canvasRef}
+            width={UV_PREVIEW_SIZE}
+            height={UV_PREVIEW_SIZE}
+            className="w-full aspect-square border border-gray-200 rounded"
+          />
+        ) : (
+          <div className="w-full aspect-square flex items-center justify-center border border-red-200 bg-red-50 rounded text-xs text-red-600">
+            No UVs
+          </div>
+        )
+      ) : (
+        <div className="w-full aspect-square flex items-center justify-center border border-red-200 bg-red-50 rounded text-xs text-red-600 text-center px-2">
+          No &quot;{zone.mesh}&quot; mesh
+        </div>
+      )}
+      {layoutIssues.length > 0 && (
+        <div className="mt-1 text-xs text-amber-700" title="UV Exact fits the design upright into one undistorted island">
+          UV Exact: {layoutIssues.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ModelInspector({ garment, report, onClose, className = '' }: ModelInspectorProps) {
+  const unmatched = report?.meshes.filter((mesh) => mesh.unmatched) ?? [];
+  const skewedZones = report?.meshes.filter((mesh) => mesh.uvLayout && describeUvLayoutIssues(mesh.uvLayout).length > 0) ?? [];
+  const partLabel = (id: string | null) => garment.parts.find((part) => part.id === id)?.label ?? id;
+
+  return (
+    <div className={`bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 overflow-y-auto ${className}`}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 uppercase">Model Inspector</h3>
+          <div className="text-xs text-gray-500 font-mono">{garment.modelPath}</div>
+        </div>
+        <button onClick={onClose} className="w-6 h-6 text-gray-500 hover:text-gray-800" title="Close inspector">
+          ×
+        </button>
+      </div>
+
+      {!report || report.modelPath !== garment.modelPath ? (
+        <p className="p-4 text-xs text-gray-500">Waiting for the model to load…</p>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-sm font-semibold text-gray-800">{report.meshes.length}</div>
+              <div className="text-xs text-gray-500">Meshes</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-sm font-semibold text-gray-800">{report.totalVertices.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">Vertices</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-sm font-semibold text-gray-800">{report.totalTriangles.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">Triangles</div>
+            </div>
+          </div>
+
+          {(unmatched.length > 0 || report.missingZones.length > 0 || skewedZones.length > 0) && (
+            <div className="bg-amber-50 border border-amber-200 rounded p-2 text-xs text-amber-800 space-y-1">
+              {unmatched.length > 0 && (
+                <div>
+                  {unmatched.length} {unmatched.length === 1 ? 'mesh matches' : 'meshes match'} no colour part or print zone
+                  and {unmatched.length === 1 ? 'falls' : 'fall'} back to {partLabel(garment.defaultPart)}.
+                </div>
+              )}
+              {report.missingZones.length > 0 && (
+                <div>No mesh found for: {report.missingZones.join(', ')}.</div>
+              )}
+              {skewedZones.length > 0 && (
+                <div>
+                  UV Exact expects each zone unwrapped as one upright, undistorted island; the design will
+                  land cut, turned or squashed on: {skewedZones.map((mesh) => mesh.zoneId).join(', ')}.
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 uppercase mb-2">Meshes</h4>
+            <div className="space-y-1">
+              {report.meshes.map((mesh) => (
+                <div
+                  key={mesh.mesh.uuid}
+                  className={`px-2 py-1.5 rounded border text-xs ${mesh.unmatched ? 'border-amber-300 bg-amber-50' : 'border-gray-100'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono font-medium text-gray-800 truncate">{mesh.name}</span>
+                    <span className={`flex-shrink-0 ${mesh.unmatched ? 'text-amber-700' : 'text-gray-500'}`}>
+                      {mesh.hidden
+                        ? 'hidden'
+                        : mesh.zoneId
+                          ? `zone: ${mesh.zoneId}`
+                          : mesh.unmatched
+                            ? 'unmatched'
+                            : partLabel(mesh.partId)}
+                    </span>
+                  </div>
+                  <div className="text-gray-500 mt-0.5">
+                    {mesh.vertexCount.toLocaleString()} verts · {mesh.triangleCount.toLocaleString()} tris · UV: {mesh.uvSets.join(', ') || 'none'}
+                  </div>
+                  <div className="text-gray-500">
+                    {mesh.materials.join(', ')} · {formatSize(mesh)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 uppercase mb-2">Print Zone UV Layouts</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {garment.printZones.map((zone) => (
+                <ZoneUvPreview
+                  key={zone.id}
+                  zone={zone}
+                  mesh={report.meshes.find((mesh) => mesh.zoneId === zone.id)}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
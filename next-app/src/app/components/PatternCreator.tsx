@@ -0,0 +1,425 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import {
+  loadSavedPatterns,
+  renderPatternRepeat,
+  renderPatternTile,
+  storeSavedPatterns,
+  type PatternDesign,
+  type PatternMotif,
+  type RepeatMode,
+} from '../lib/patternRepeat';
+
+const TILE_SIZE = 512;
+
+interface PatternCreatorProps {
+  className?: string;
+  onPreview: (patternUrl: string) => void;
+  onClose: () => void;
+}
+
+function createEmptyDesign(): PatternDesign {
+  return {
+    id: `pattern-${Date.now()}`,
+    name: 'Untitled Pattern',
+    repeatMode: 'grid',
+    background: null,
+    motifs: [],
+  };
+}
+
+export default function PatternCreator({ className = '', onPreview, onClose }: PatternCreatorProps) {
+  const [design, setDesign] = useState<PatternDesign>(createEmptyDesign);
+  const [motifLibrary, setMotifLibrary] = useState<string[]>([]);
+  const [savedPatterns, setSavedPatterns] = useState<PatternDesign[]>([]);
+  const [selectedMotifId, setSelectedMotifId] = useState<string | null>(null);
+  const [repeatPreviewUrl, setRepeatPreviewUrl] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [loadedImageCount, setLoadedImageCount] = useState(0);
+
+  const tileCanvasRef = useRef<HTMLCanvasElement>(null);
+  const motifInputRef = useRef<HTMLInputElement>(null);
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const dragOffsetRef = useRef({ x: 0, y: 0 });
+  // Parents pass a fresh closure every render; only a settled design should push a preview
+  const onPreviewRef = useRef(onPreview);
+
+  useEffect(() => {
+    onPreviewRef.current = onPreview;
+  }, [onPreview]);
+
+  const selectedMotif = design.motifs.find((motif) => motif.id === selectedMotifId) || null;
+
+  useEffect(() => {
+    setSavedPatterns(loadSavedPatterns());
+  }, []);
+
+  // Decode every motif image once; redraw when a new one becomes available
+  useEffect(() => {
+    const sources = new Set([...motifLibrary, ...design.motifs.map((motif) => motif.src)]);
+    sources.forEach((src) => {
+      if (imagesRef.current.has(src)) return;
+      const img = new Image();
+      img.onload = () => {
+        imagesRef.current.set(src, img);
+        setLoadedImageCount((count) => count + 1);
+      };
+      img.src = src;
+    });
+  }, [motifLibrary, design.motifs]);
+
+  // Redraw the tile (with the selection outline) on every change
+  useEffect(() => {
+    const canvas = tileCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    renderPatternTile(ctx, design, imagesRef.current, TILE_SIZE);
+
+    const selected = design.motifs.find((motif) => motif.id === selectedMotifId);
+    if (selected) {
+      const half = (selected.scale * TILE_SIZE) / 2;
+      ctx.strokeStyle = '#ec4899';
+      ctx.lineWidth = 3;
+      ctx.setLineDash([8, 6]);
+      ctx.strokeRect(selected.x * TILE_SIZE - half, selected.y * TILE_SIZE - half, half * 2, half * 2);
+      ctx.setLineDash([]);
+    }
+  }, [design, selectedMotifId, loadedImageCount]);
+
+  // Rebuild the repeat and push it to the 3D garment once a drag settles
+  useEffect(() => {
+    if (isDragging) return;
+
+    const tile = document.createElement('canvas');
+    tile.width = TILE_SIZE;
+    tile.height = TILE_SIZE;
+    renderPatternTile(tile.getContext('2d')!, design, imagesRef.current, TILE_SIZE);
+    const repeatUrl = renderPatternRepeat(tile, design.repeatMode).toDataURL('image/png');
+    setRepeatPreviewUrl(repeatUrl);
+    if (design.motifs.length > 0) {
+      onPreviewRef.current(repeatUrl);
+    }
+  }, [design, isDragging, loadedImageCount]);
+
+  const updateDesign = (changes: Partial<PatternDesign>) => {
+    setDesign((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateMotif = (id: string, changes: Partial<PatternMotif>) => {
+    setDesign((prev) => ({
+      ...prev,
+      motifs: prev.motifs.map((motif) => (motif.id === id ? { ...motif, ...changes } : motif)),
+    }));
+  };
+
+  const handleMotifUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(event.target.files || []).forEach((file) => {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const src = e.target?.result as string;
+        setMotifLibrary((prev) => (prev.includes(src) ? prev : [...prev, src]));
+      };
+      reader.readAsDataURL(file);
+    });
+    event.target.value = '';
+  };
+
+  const handleAddMotif = (src: string) => {
+    const motif: PatternMotif = {
+      id: `motif-${Date.now()}`,
+      src,
+      x: 0.5,
+      y: 0.5,
+      scale: 0.3,
+      rotation: 0,
+    };
+    setDesign((prev) => ({ ...prev, motifs: [...prev.motifs, motif] }));
+    setSelectedMotifId(motif.id);
+  };
+
+  const handleRemoveMotif = (id: string) => {
+    setDesign((prev) => ({ ...prev, motifs: prev.motifs.filter((motif) => motif.id !== id) }));
+    setSelectedMotifId(null);
+  };
+
+  const getTilePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+  };
+
+  const handleTilePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getTilePoint(event);
+    // Topmost motif under the pointer wins
+    const hit = [...design.motifs].reverse().find((motif) => {
+      const radius = motif.scale / 2;
+      return Math.abs(point.x - motif.x) <= radius && Math.abs(point.y - motif.y) <= radius;
+    });
+
+    setSelectedMotifId(hit?.id || null);
+    if (hit) {
+      dragOffsetRef.current = { x: point.x - hit.x, y: point.y - hit.y };
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setIsDragging(true);
+    }
+  };
+
+  const handleTilePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDragging || !selectedMotifId) return;
+    const point = getTilePoint(event);
+    const wrap = (value: number) => ((value % 1) + 1) % 1;
+    updateMotif(selectedMotifId, {
+      x: wrap(point.x - dragOffsetRef.current.x),
+      y: wrap(point.y - dragOffsetRef.current.y),
+    });
+  };
+
+  const handleTilePointerUp = () => {
+    setIsDragging(false);
+  };
+
+  const handleSavePattern = () => {
+    const existing = savedPatterns.some((pattern) => pattern.id === design.id);
+    const next = existing
+      ? savedPatterns.map((pattern) => (pattern.id === design.id ? design : pattern))
+      : [...savedPatterns, design];
+    setSavedPatterns(next);
+    storeSavedPatterns(next);
+  };
+
+  const handleLoadPattern = (pattern: PatternDesign) => {
+    setDesign(pattern);
+    setSelectedMotifId(null);
+    setMotifLibrary((prev) => Array.from(new Set([...prev, ...pattern.motifs.map((motif) => motif.src)])));
+  };
+
+  const handleDeletePattern = (id: string) => {
+    const next = savedPatterns.filter((pattern) => pattern.id !== id);
+    setSavedPatterns(next);
+    storeSavedPatterns(next);
+  };
+
+  return (
+    <div className={`w-[420px] bg-white border border-gray-200 rounded-lg shadow-xl flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Pattern Creator</h2>
+          <p className="text-xs text-gray-500">Build a repeating all-over print</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-8 h-8 flex items-center justify-center text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-md"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {/* Motif Library */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-800">MOTIFS</h3>
+            <button
+              onClick={() => motifInputRef.current?.click()}
+              className="text-pink-500 hover:text-pink-600 text-sm"
+            >
+              + Add Image
+            </button>
+            <input
+              ref={motifInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleMotifUpload}
+              className="hidden"
+            />
+          </div>
+          {motifLibrary.length === 0 ? (
+            <p className="text-xs text-gray-500">Upload PNG motifs, then click one to place it on the tile.</p>
+          ) : (
+            <div className="grid grid-cols-5 gap-2">
+              {motifLibrary.map((src) => (
+                <button
+                  key={src}
+                  onClick={() => handleAddMotif(src)}
+                  className="w-14 h-14 rounded border border-gray-200 hover:border-pink-500 bg-gray-50 overflow-hidden"
+                  style={{ backgroundImage: `url(${src})`, backgroundSize: 'contain', backgroundRepeat: 'no-repeat', backgroundPosition: 'center' }}
+                  title="Add to tile"
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Tile Canvas */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">TILE</h3>
+          <canvas
+            ref={tileCanvasRef}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+            className="w-full aspect-square border border-gray-300 rounded cursor-move touch-none"
+            style={{
+              backgroundImage: 'linear-gradient(45deg, #f3f4f6 25%, transparent 25%, transparent 75%, #f3f4f6 75%), linear-gradient(45deg, #f3f4f6 25%, transparent 25%, transparent 75%, #f3f4f6 75%)',
+              backgroundSize: '16px 16px',
+              backgroundPosition: '0 0, 8px 8px',
+            }}
+            onPointerDown={handleTilePointerDown}
+            onPointerMove={handleTilePointerMove}
+            onPointerUp={handleTilePointerUp}
+            onPointerCancel={handleTilePointerUp}
+          />
+
+          {selectedMotif && (
+            <div className="mt-3 space-y-3">
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-sm font-medium text-gray-700">Size</label>
+                  <span className="text-sm text-gray-500">{Math.round(selectedMotif.scale * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.05"
+                  max="1"
+                  step="0.01"
+                  value={selectedMotif.scale}
+                  onChange={(e) => updateMotif(selectedMotif.id, { scale: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="text-sm font-medium text-gray-700">Rotation</label>
+                  <span className="text-sm text-gray-500">{selectedMotif.rotation}°</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="360"
+                  value={selectedMotif.rotation}
+                  onChange={(e) => updateMotif(selectedMotif.id, { rotation: parseInt(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+              <button
+                onClick={() => handleRemoveMotif(selectedMotif.id)}
+                className="text-sm text-red-600 hover:text-red-700 font-medium"
+              >
+                Remove Motif
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Repeat Mode */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">REPEAT</h3>
+          <div className="grid grid-cols-4 gap-2">
+            {[
+              { mode: 'grid' as RepeatMode, label: 'Grid' },
+              { mode: 'halfDrop' as RepeatMode, label: 'Half-Drop' },
+              { mode: 'brick' as RepeatMode, label: 'Brick' },
+              { mode: 'mirror' as RepeatMode, label: 'Mirror' }
+            ].map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => updateDesign({ repeatMode: option.mode })}
+                className={`p-2 rounded-lg border text-xs font-medium transition-colors ${design.repeatMode === option.mode
+                  ? 'border-pink-500 bg-pink-50 text-pink-700'
+                  : 'border-gray-300 hover:border-gray-400'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Background */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">BACKGROUND</h3>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={design.background === null}
+                onChange={(e) => updateDesign({ background: e.target.checked ? null : '#ffffff' })}
+              />
+              Show garment colour
+            </label>
+            {design.background !== null && (
+              <input
+                type="color"
+                value={design.background}
+                onChange={(e) => updateDesign({ background: e.target.value })}
+                className="w-10 h-10 rounded border border-gray-300 cursor-pointer"
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Repeat Preview */}
+        {repeatPreviewUrl && (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">REPEAT PREVIEW</h3>
+            <div
+              className="w-full h-32 rounded-lg border"
+              style={{ backgroundImage: `url(${repeatPreviewUrl})`, backgroundSize: '128px 128px' }}
+            />
+          </div>
+        )}
+
+        {/* Saved Patterns */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">SAVED PATTERNS</h3>
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              type="text"
+              value={design.name}
+              onChange={(e) => updateDesign({ name: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Pattern name"
+            />
+            <button
+              onClick={handleSavePattern}
+              disabled={design.motifs.length === 0}
+              className="px-3 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          {savedPatterns.length === 0 ? (
+            <p className="text-xs text-gray-500">Saved patterns are available in every design.</p>
+          ) : (
+            <div className="space-y-2">
+              {savedPatterns.map((pattern) => (
+                <div key={pattern.id} className="flex items-center justify-between p-2 border border-gray-200 rounded-md">
+                  <span className="text-sm text-gray-700 truncate">{pattern.name}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleLoadPattern(pattern)}
+                      className="text-xs text-pink-600 hover:text-pink-700 font-medium"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => handleDeletePattern(pattern.id)}
+                      className="text-xs text-red-500 hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
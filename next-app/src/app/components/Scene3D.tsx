@@ -1,40 +1,69 @@
 'use client';
 
 import React, { Suspense } from 'react';
-import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { OrbitControls, useGLTF } from '@react-three/drei';
+import { Canvas, useThree, useFrame, type ThreeEvent } from '@react-three/fiber';
+import { ContactShadows, MeshReflectorMaterial, OrbitControls, useGLTF } from '@react-three/drei';
 import { useRef, useState, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-
-interface TextureTransform {
-  position: { x: number; y: number };
-  scale: number;
-  rotation: number;
-}
-
-interface UVTextureData {
-  region: 'front' | 'back' | 'leftSleeve' | 'rightSleeve';
-  textureUrl: string;
-  width: number;
-  height: number;
-}
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { GTAOPass } from 'three/examples/jsm/postprocessing/GTAOPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { acquireFabricMaterial, releaseFabricMaterial, type TextureSettings } from '../lib/fabricMaterial';
+import { acquireTexture, createResourceCache, releaseTexture, whenTextureLoaded } from '../lib/gpuResources';
+import { createDesignDecal, getZoneFrame, projectDecalGeometry, surfacePointToPosition, type TextureTransform } from '../lib/decalPlacement';
+import { getZoneMaskTexture } from '../lib/zoneMasks';
+import { uvToDesignPoint, type UVTextureData } from '../lib/uvAtlas';
+import {
+  GLOW_PREVIEW_DIM,
+  GLOW_PREVIEW_INTENSITY,
+  applyPrintSurface,
+  type PrintSurfaceMaps,
+} from '../lib/printTechniques';
+import { inspectModel, rememberSourceMaterial, type ModelReport } from '../lib/modelDiagnostics';
+import {
+  DEFAULT_LIGHTING_SETTINGS,
+  createRigEnvironmentMap,
+  getLightingRig,
+  loadEnvironmentFile,
+  type LightingSettings,
+} from '../lib/lighting';
+import { FLOOR_GAP, getShadowReach, type FloorSettings } from '../lib/floor';
+import { hasActiveEffects, type PostProcessingSettings } from '../lib/postProcessing';
+import {
+  DEFAULT_GARMENT,
+  findPartForMesh,
+  findZoneForMesh,
+  getDefaultColors,
+  isHiddenMesh,
+  type GarmentColors,
+  type GarmentDefinition,
+  type PrintZone,
+  type PrintZoneId,
+} from '../lib/garments';
 
 interface TShirtModelProps {
-  modelPath?: string;
-  colors: {
-    body: string;
-    neck: string;
-    neckBorder: string;
-    cuff: string;
-    buttons: string;
-    ribbedHem: string;
-  };
+  garment?: GarmentDefinition;
+  colors: GarmentColors; // by garment part id
+
   textures?: {
     front?: string;
     back?: string;
     leftSleeve?: string;
     rightSleeve?: string;
   };
+  // Print technique and ink effect maps (see flattenZoneSurface) for the projected textures
+  printSurfaces?: {
+    front?: PrintSurfaceMaps;
+    back?: PrintSurfaceMaps;
+    leftSleeve?: PrintSurfaceMaps;
+    rightSleeve?: PrintSurfaceMaps;
+  };
+  glowPreview?: boolean; // light up glow-in-the-dark ink
   uvTextures?: {
     front?: UVTextureData;
     back?: UVTextureData;
@@ -47,22 +76,223 @@ interface TShirtModelProps {
     leftSleeve?: TextureTransform;
     rightSleeve?: TextureTransform;
   };
+  texture?: TextureSettings;
+  // Dragging a placed design on the model: findDesign names the design under a point of a
+  // zone print (fractions of the print from its centre, +y up), or null to leave the
+  // gesture to the camera; onDesignMove then reports how far that design moved, in the
+  // same fractions
+  findDesign?: (zone: PrintZoneId, point: TextureTransform['position']) => string | null;
+  onDesignMove?: (zone: PrintZoneId, design: string, delta: TextureTransform['position']) => void;
+  onDesignDrag?: (drag: { zone: PrintZoneId; design: string } | null) => void; // on the first move of a drag, null once it ends
+  // A design being dragged, shown over its zone on its own so the move is only a
+  // re-projection: an image the zone's size (like `textures`) and how far it has moved
+  // since, in fractions of the zone print (+y up)
+  dragPreviews?: {
+    front?: DragPreview;
+    back?: DragPreview;
+    leftSleeve?: DragPreview;
+    rightSleeve?: DragPreview;
+  };
+  onModelInspect?: (report: ModelReport) => void;
+}
+
+interface DragPreview {
+  url: string;
+  offset: TextureTransform['position'];
+}
+
+// Stand-in for helper meshes that should never render
+const HIDDEN_MATERIAL = new THREE.MeshLambertMaterial({
+  transparent: true,
+  opacity: 0,
+  visible: false,
+});
+
+// A design shown on one print zone. It lives across renders so that a transform-only
+// change re-projects the decal; the texture and material change only with the image.
+interface ZonePrint {
+  kind: 'decal' | 'uv';
+  url: string;
+  host: THREE.Mesh;
+  texture: THREE.Texture; // held in the shared texture cache
+  surfaceMaps?: PrintSurfaceMaps;
+  surfaceTextures: THREE.Texture[]; // also held in the texture cache
+  material: THREE.MeshStandardMaterial;
+  mesh: THREE.Mesh | null; // null until the image has decoded (or while off the panel)
+  transform?: TextureTransform;
+  offset?: TextureTransform['position']; // drag previews: placed by their offset instead
+  aspect: number;
+  designAspect?: number; // UV prints: the design fitted into the layout
+  loaded: boolean;
+  removed: boolean;
+}
+
+function sameTransform(a?: TextureTransform, b?: TextureTransform) {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.position.x === b.position.x && a.position.y === b.position.y && a.scale === b.scale && a.rotation === b.rotation;
+}
+
+function sameSurfaceMaps(a?: PrintSurfaceMaps, b?: PrintSurfaceMaps) {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.surface === b.surface && a.ink === b.ink && a.glow === b.glow;
+}
+
+// Where a hit on the zone lands on its print, as fractions of the print from its centre
+// (+y up). Decals are taken to span the zone, as flattened zone designs do.
+function getPrintPoint(print: ZonePrint, hit: THREE.Intersection) {
+  if (print.kind === 'uv') return hit.uv && print.designAspect ? uvToDesignPoint(print.host, hit.uv, print.designAspect) : null;
+  return surfacePointToPosition(print.host, hit.point, print.aspect);
+}
+
+function sameOffset(a?: TextureTransform['position'], b?: TextureTransform['position']) {
+  return a === b || (!!a && !!b && a.x === b.x && a.y === b.y);
+}
+
+// A drag preview spans the zone like the flattened print and sits `offset` away from it.
+// Decal positions measure y in panel heights, the offset in print heights.
+function getDecalTransform(print: ZonePrint): TextureTransform | undefined {
+  if (!print.offset) return print.transform;
+  const frame = getZoneFrame(print.host);
+  return {
+    position: { x: print.offset.x, y: (print.offset.y * frame.width) / (print.aspect * frame.height) },
+    scale: 100,
+    rotation: 0,
+  };
+}
+
+function placeDecal(print: ZonePrint) {
+  const transform = getDecalTransform(print);
+  if (!print.mesh) {
+    const decal = createDesignDecal(print.host, print.material, print.aspect, transform);
+    if (!decal) return;
+    if (print.offset) decal.renderOrder += 1; // over the zone's own print
+    print.host.add(decal);
+    print.mesh = decal;
+    return;
+  }
+  const geometry = projectDecalGeometry(print.host, print.aspect, transform);
+  print.mesh.visible = !!geometry;
+  if (!geometry) return;
+  print.mesh.geometry.dispose();
+  print.mesh.geometry = geometry;
+}
+
+// Print material over the zone's fabric. The design is uploaded premultiplied and
+// divided back out here, so texels filtered against fully transparent ones keep the
+// ink's colour: straight alpha would blend in the black stored under empty pixels and
+// ring every edge in grey, where the garment colour should show through.
+function createPrintMaterial(map: THREE.Texture, kind: ZonePrint['kind']) {
+  const material = new THREE.MeshStandardMaterial({
+    map,
+    transparent: true,
+    roughness: 0.8,
+    side: kind === 'decal' ? THREE.DoubleSide : THREE.FrontSide,
+    depthWrite: false,
+    // Hard-prevent depth fighting with the panel underneath
+    polygonOffset: true,
+    polygonOffsetFactor: -4,
+    polygonOffsetUnits: -4,
+  });
+  material.onBeforeCompile = (shader) => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <map_fragment>',
+      `vec4 sampledDiffuseColor = texture2D( map, vMapUv );
+      sampledDiffuseColor.rgb /= max( sampledDiffuseColor.a, 1e-4 );
+      diffuseColor *= sRGBTransferEOTF( sampledDiffuseColor );`
+    );
+  };
+  material.customProgramCacheKey = () => 'print';
+  return material;
+}
+
+function createZonePrint(
+  zone: PrintZone,
+  host: THREE.Mesh,
+  kind: ZonePrint['kind'],
+  url: string,
+  surfaceMaps: PrintSurfaceMaps | undefined,
+  transform: TextureTransform | undefined,
+  invalidate: () => void
+): ZonePrint {
+  const flipY = kind === 'decal'; // UV prints follow the glTF convention
+  // Decoded from sRGB in the print shader, after the alpha is divided out
+  const texture = acquireTexture(url, { flipY, colorSpace: THREE.NoColorSpace, premultiplyAlpha: true });
+  const surfaceTextures: THREE.Texture[] = [];
+  const acquireSurface = (mapUrl: string, colorSpace: THREE.ColorSpace) => {
+    const map = acquireTexture(mapUrl, { flipY, colorSpace });
+    surfaceTextures.push(map);
+    return map;
+  };
+  const material = createPrintMaterial(texture, kind);
+  if (surfaceMaps) {
+    applyPrintSurface(material, {
+      surface: acquireSurface(surfaceMaps.surface, THREE.NoColorSpace),
+      ink: acquireSurface(surfaceMaps.ink, THREE.NoColorSpace),
+      glow: surfaceMaps.glow ? acquireSurface(surfaceMaps.glow, THREE.SRGBColorSpace) : null,
+    });
+  }
+  const print: ZonePrint = { kind, url, host, texture, surfaceMaps, surfaceTextures, material, mesh: null, transform, aspect: 1, loaded: false, removed: false };
+
+  whenTextureLoaded(texture).then(() => {
+    if (print.removed) return;
+    print.loaded = true;
+
+    if (kind === 'uv') {
+      // Mapped as-is on a copy of the panel, nothing projected
+      const uvPrint = new THREE.Mesh(host.geometry, material);
+      uvPrint.name = `${host.name}-uvprint`;
+      uvPrint.renderOrder = 2;
+      uvPrint.raycast = () => {};
+      uvPrint.userData.isDesignDecal = true;
+      host.add(uvPrint);
+      print.mesh = uvPrint;
+      invalidate();
+      return;
+    }
+
+    const image = texture.image as HTMLImageElement;
+    print.aspect = image.width / image.height;
+    placeDecal(print);
+    invalidate();
+
+    // Clip the print to the zone's printable area
+    getZoneMaskTexture(zone, host).then((mask) => {
+      if (print.removed) return;
+      material.alphaMap = mask;
+      material.needsUpdate = true;
+      invalidate();
+    });
+  }, (err) => console.error('❌ Texture failed on', host.name, ':', err));
+
+  return print;
 }
 
-function TShirtModel({ modelPath = '/poloshirt3.glb', colors, textures, uvTextures, textureTransforms, scale }: TShirtModelProps & { scale?: number }) {
-  const { scene } = useGLTF(modelPath);
+function removeZonePrint(print: ZonePrint) {
+  print.removed = true;
+  if (print.mesh) {
+    print.mesh.removeFromParent();
+    // UV prints reuse the zone mesh's own geometry
+    if (print.kind === 'decal') print.mesh.geometry.dispose();
+  }
+  print.material.dispose();
+  releaseTexture(print.texture);
+  print.surfaceTextures.forEach(releaseTexture);
+}
+
+function TShirtModel({ garment = DEFAULT_GARMENT, colors, texture, textures, printSurfaces, glowPreview, uvTextures, textureTransforms, findDesign, onDesignMove, onDesignDrag, dragPreviews, onModelInspect, scale }: TShirtModelProps & { scale?: number }) {
+  const { scene } = useGLTF(garment.modelPath);
   const { invalidate } = useThree(); // Get invalidate function to force re-render
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
   const modelRef = useRef<THREE.Group>(null);
-  const textureLoader = useMemo(() => new THREE.TextureLoader(), []);
   const [materialUpdateTrigger, setMaterialUpdateTrigger] = useState(0); // Force re-render trigger
   const [textureLoadCount, setTextureLoadCount] = useState(0); // Track texture loading
 
-  console.log('🔍 Loaded model path:', modelPath);
-  console.log('🔍 Scene object:', scene);
-  console.log('🔍 Scene children count:', scene.children.length);
-  scene.traverse((child) => {
-    console.log('🔍 Model child:', child.name, child.type);
-  });
+  // Report on the model as loaded, before the garment materials replace what the file authored
+  useEffect(() => {
+    onModelInspect?.(inspectModel(scene, garment));
+  }, [scene, garment, onModelInspect]);
 
   // Tiny initial rotation to break z-fighting at initial view
   useEffect(() => {
@@ -71,278 +301,459 @@ function TShirtModel({ modelPath = '/poloshirt3.glb', colors, textures, uvTextur
     }
   }, []);
 
-  // 🔥 NEW: Apply textures to SEPARATE meshes (front, back, leftSleeve, rightSleeve)
+  // Garment part materials. Only the model, colours or fabric settings change these, so a
+  // moving design never rebuilds them.
+  const heldRef = useRef<Array<() => void>>([]); // releases for the shared materials in use
+
   useEffect(() => {
-    if (!modelRef.current) return;
+    const held: Array<() => void> = [];
 
-    console.log('🔥 useEffect triggered with textures:', textures);
+    scene.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || child.userData.isDesignDecal) return;
 
-    modelRef.current.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        const meshName = child.name.toLowerCase();
-        console.log('🔥 Processing mesh:', child.name);
+      // Skip helper meshes (the design placeholder)
+      if (isHiddenMesh(garment, child.name)) {
+        child.material = HIDDEN_MATERIAL;
+        child.castShadow = false;
+        child.receiveShadow = false;
+        return;
+      }
 
-        // Skip design mesh
-        if (meshName === 'design') {
-          child.material = new THREE.MeshLambertMaterial({
-            transparent: true,
-            opacity: 0,
-            visible: false,
-          });
-          child.castShadow = false;
-          child.receiveShadow = false;
-          console.log('🔥 Made design mesh transparent');
-          return;
-        }
+      // Every mesh gets its garment part material; zone panels fall back to the body
+      const { part } = findPartForMesh(garment, child.name);
+      rememberSourceMaterial(child);
+      const fabric = acquireFabricMaterial(colors[part.id] ?? part.defaultColor, texture, {
+        withPattern: part.fabric === 'body',
+        part: part.fabric,
+      });
+      held.push(() => releaseFabricMaterial(fabric));
+      child.material = fabric;
+      child.renderOrder = 1;
+      child.castShadow = false;
+      child.receiveShadow = false;
+    });
 
-        // 🚀 NEW LOGIC: Apply texture to SPECIFIC mesh based on mesh name
-        let textureUrl = null;
-        let transforms = null;
-
-        // Match mesh name to texture
-        if (meshName === 'front' && textures?.front) {
-          textureUrl = textures.front;
-          transforms = textureTransforms?.front;
-          console.log('🔥 Applying FRONT texture to FRONT mesh:', textureUrl);
-        } else if (meshName === 'back' && textures?.back) {
-          textureUrl = textures.back;
-          transforms = textureTransforms?.back;
-          console.log('🔥 Applying BACK texture to BACK mesh:', textureUrl);
-        } else if (meshName === 'leftsleeve' && textures?.leftSleeve) {
-          textureUrl = textures.leftSleeve;
-          transforms = textureTransforms?.leftSleeve;
-          console.log('🔥 Applying LEFT SLEEVE texture to LEFTSLEEVE mesh:', textureUrl);
-        } else if (meshName === 'rightsleeve' && textures?.rightSleeve) {
-          textureUrl = textures.rightSleeve;
-          transforms = textureTransforms?.rightSleeve;
-          console.log('🔥 Applying RIGHT SLEEVE texture to RIGHTSLEEVE mesh:', textureUrl);
+    // Release what the previous render held only now, so anything this render asked for
+    // again is reused rather than disposed and rebuilt
+    const previous = heldRef.current;
+    heldRef.current = held;
+    previous.forEach((release) => release());
+    invalidate();
+  }, [scene, garment, colors, texture, invalidate]);
+
+  // Designs are projected onto the zone meshes as decals, so they sit on the fabric
+  // (colour, pattern, weave) instead of replacing the zone material
+  const printsRef = useRef<Map<PrintZoneId, ZonePrint>>(new Map());
+
+  const zoneMeshes = useMemo(() => {
+    const meshes = new Map<PrintZoneId, { zone: PrintZone; mesh: THREE.Mesh }>();
+    scene.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || child.userData.isDesignDecal) return;
+      const zone = findZoneForMesh(garment, child.name);
+      if (zone) meshes.set(zone.id, { zone, mesh: child });
+    });
+    return meshes;
+  }, [scene, garment]);
+
+  useEffect(() => {
+    const prints = printsRef.current;
+    const zones = new Set<PrintZoneId>([...prints.keys(), ...zoneMeshes.keys()]);
+
+    zones.forEach((zoneId) => {
+      const target = zoneMeshes.get(zoneId);
+      // A texture already laid out in the mesh's UV space wins over a projected one
+      const uvTexture = uvTextures?.[zoneId];
+      const url = uvTexture?.textureUrl ?? textures?.[zoneId];
+      const surfaceMaps = uvTexture ? uvTexture.surface : printSurfaces?.[zoneId];
+      const kind = uvTexture ? 'uv' : 'decal';
+      const transform = textureTransforms?.[zoneId];
+      let print = prints.get(zoneId);
+
+      // A new image or technique (or a different model) needs a new print; anything else is placement
+      if (print && (!target || !url || print.host !== target.mesh || print.kind !== kind || print.url !== url || !sameSurfaceMaps(print.surfaceMaps, surfaceMaps))) {
+        removeZonePrint(print);
+        prints.delete(zoneId);
+        print = undefined;
+      }
+      if (!target || !url) return;
+
+      if (!print) {
+        print = createZonePrint(target.zone, target.mesh, kind, url, surfaceMaps, transform, invalidate);
+        print.designAspect = uvTexture?.designAspect;
+        prints.set(zoneId, print);
+      }
+
+      // Glow ink only shows once the room goes dark (materials without a glow map stay unlit)
+      const glow = glowPreview ? GLOW_PREVIEW_INTENSITY : 0;
+      if (print.material.emissiveIntensity !== glow) {
+        print.material.emissiveIntensity = glow;
+        invalidate();
+      }
+
+      // Fast path while dragging or resizing: re-project the decal, keep texture and material
+      if (print.kind === 'decal' && !sameTransform(print.transform, transform)) {
+        print.transform = transform;
+        if (print.loaded) {
+          placeDecal(print);
+          invalidate();
         }
+      }
+    });
+  }, [zoneMeshes, textures, printSurfaces, glowPreview, uvTextures, textureTransforms, invalidate]);
 
-        if (textureUrl) {
-          // Set placeholder material to prevent gray flash
-          child.material = new THREE.MeshLambertMaterial({
-            color: 0xcccccc, // gray placeholder
-            side: THREE.DoubleSide,
-            depthWrite: false,
-          });
-          child.renderOrder = 2;
-          child.castShadow = false;
-          child.receiveShadow = false;
-
-          const texture = textureLoader.load(
-            textureUrl,
-            () => {
-              texture.needsUpdate = true;
-              texture.colorSpace = THREE.SRGBColorSpace;
-
-              // Set texture properties
-              texture.flipY = false;
-              texture.wrapS = THREE.ClampToEdgeWrapping;
-              texture.wrapT = THREE.ClampToEdgeWrapping;
-              texture.minFilter = THREE.LinearFilter;
-              texture.magFilter = THREE.LinearFilter;
-              texture.generateMipmaps = false;
-
-              // Apply transforms if available
-              if (transforms) {
-                texture.center.set(0.5, 0.5);
-                texture.rotation = (transforms.rotation * Math.PI) / 180;
-
-                const scaleX = Math.max(0.1, transforms.scale / 220);
-                const scaleY = Math.max(0.1, transforms.scale / 220);
-                texture.repeat.set(scaleX, scaleY);
-
-                const offsetX = transforms.position.x / 800;
-                const offsetY = -transforms.position.y / 800;
-                texture.offset.set(offsetX, offsetY);
-              } else {
-                // Default settings
-                texture.repeat.set(1, 1);
-                texture.offset.set(0, 0);
-                texture.center.set(0.5, 0.5);
-                texture.rotation = 0;
-              }
-
-              // Update material with texture
-              child.material = new THREE.MeshLambertMaterial({
-                map: texture,
-                transparent: true,
-                side: THREE.DoubleSide,
-                depthWrite: false,
-              });
-
-              // Hard-prevent depth fighting
-              const mat = child.material as THREE.MeshLambertMaterial;
-              mat.polygonOffset = true;
-              mat.polygonOffsetFactor = -1;
-              mat.polygonOffsetUnits = -1;
-
-              child.material.needsUpdate = true;
-              invalidate(); // force re-render when texture is ready
-              console.log('✅ Applied texture to', child.name, 'mesh');
-            },
-            undefined,
-            (err) => console.error('❌ Texture failed on', child.name, ':', err)
-          );
-        } else {
-          // No texture for this mesh - apply base color material
-          if (meshName.includes('neck') && !meshName.includes('border')) {
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.neck),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          } else if (meshName.includes('neck') && meshName.includes('border')) {
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.neckBorder),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          } else if (meshName.includes('cuff')) {
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.cuff),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          } else if (meshName.includes('button')) {
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.buttons),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          } else if (meshName.includes('ribbed') || meshName.includes('hem')) {
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.ribbedHem),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          } else {
-            // Default body color for unmatched meshes
-            child.material = new THREE.MeshLambertMaterial({
-              color: new THREE.Color(colors.body),
-              side: THREE.DoubleSide,
-              depthWrite: true,
-            });
-            child.renderOrder = 1;
-            child.castShadow = false;
-            child.receiveShadow = false;
-          }
-          console.log('🔥 Applied base material to', child.name);
+  // Drag previews only ever re-project while the design moves; the zone print under them
+  // is left alone until the drag ends
+  const dragPrintsRef = useRef<Map<PrintZoneId, ZonePrint>>(new Map());
+
+  useEffect(() => {
+    const prints = dragPrintsRef.current;
+    const zones = new Set<PrintZoneId>([...prints.keys(), ...zoneMeshes.keys()]);
+
+    zones.forEach((zoneId) => {
+      const target = zoneMeshes.get(zoneId);
+      const preview = dragPreviews?.[zoneId];
+      let print = prints.get(zoneId);
+
+      if (print && (!target || !preview || print.host !== target.mesh || print.url !== preview.url)) {
+        removeZonePrint(print);
+        prints.delete(zoneId);
+        print = undefined;
+      }
+      if (!target || !preview) return;
+
+      if (!print) {
+        print = createZonePrint(target.zone, target.mesh, 'decal', preview.url, undefined, undefined, invalidate);
+        print.offset = preview.offset;
+        prints.set(zoneId, print);
+      } else if (!sameOffset(print.offset, preview.offset)) {
+        print.offset = preview.offset;
+        if (print.loaded) {
+          placeDecal(print);
+          invalidate();
         }
       }
     });
-  }, [modelRef, textures, textureTransforms, textureLoader, colors]);
+  }, [zoneMeshes, dragPreviews, invalidate]);
+
+  useEffect(() => {
+    const prints = printsRef.current;
+    const dragPrints = dragPrintsRef.current;
+    return () => {
+      prints.forEach(removeZonePrint);
+      prints.clear();
+      dragPrints.forEach(removeZonePrint);
+      dragPrints.clear();
+      heldRef.current.forEach((release) => release());
+      heldRef.current = [];
+    };
+  }, []);
+
+  // Drag-to-place: grab a design on its zone and slide it across the garment surface.
+  // Only a press on ink takes the gesture; anywhere else still orbits the camera.
+  const dragRef = useRef<{ zone: PrintZoneId; design: string; print: ZonePrint; last: { x: number; y: number }; moved: boolean } | null>(null);
+  const dragRaycaster = useMemo(() => new THREE.Raycaster(), []);
+
+  // The design under the pointer, from the first real garment hit
+  const getDesignHit = (event: ThreeEvent<PointerEvent>) => {
+    if (!findDesign) return null;
+    const hit = event.intersections.find((intersection) => !isHiddenMesh(garment, intersection.object.name));
+    const zone = hit && findZoneForMesh(garment, hit.object.name)?.id;
+    const print = zone && printsRef.current.get(zone);
+    if (!hit || !zone || !print?.loaded || hit.object !== print.host) return null;
+    const point = getPrintPoint(print, hit);
+    const design = point && findDesign(zone, point);
+    return design ? { zone, design, print, point } : null;
+  };
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    if (!onDesignMove) return;
+    const designHit = getDesignHit(event);
+    if (!designHit) return;
+
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture(event.pointerId);
+    if (controls) controls.enabled = false; // the drag moves the design, not the camera
+
+    // Report relative moves so the grab point stays under the cursor
+    dragRef.current = { zone: designHit.zone, design: designHit.design, print: designHit.print, last: designHit.point, moved: false };
+    document.body.style.cursor = 'grabbing';
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!onDesignMove) return;
+    if (!drag) {
+      document.body.style.cursor = getDesignHit(event) ? 'grab' : 'auto';
+      return;
+    }
+
+    // Only the grabbed zone counts, so the design can't jump onto another panel mid-drag
+    dragRaycaster.set(event.ray.origin, event.ray.direction);
+    const hit = dragRaycaster.intersectObject(drag.print.host, false)[0];
+    const pointer = hit && getPrintPoint(drag.print, hit);
+    if (!pointer) return;
+
+    const delta = { x: pointer.x - drag.last.x, y: pointer.y - drag.last.y };
+    if (delta.x === 0 && delta.y === 0) return;
+    drag.last = pointer;
+    if (!drag.moved) {
+      drag.moved = true;
+      onDesignDrag?.({ zone: drag.zone, design: drag.design });
+    }
+    onDesignMove(drag.zone, drag.design, delta);
+  };
+
+  const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    (event.target as Element).releasePointerCapture(event.pointerId);
+    if (controls) controls.enabled = true;
+    dragRef.current = null;
+    document.body.style.cursor = 'grab';
+    if (drag.moved) onDesignDrag?.(null);
+  };
+
+  const handlePointerOut = () => {
+    if (!dragRef.current) document.body.style.cursor = 'auto';
+  };
 
   return (
     <group ref={modelRef}>
-      <primitive object={scene} scale={[1.3 * (scale || 1), 1.3 * (scale || 1), 1.3 * (scale || 1)]} position={[0, -0.6, 0]} />
+      <primitive
+        object={scene}
+        scale={garment.framing.modelScale * (scale || 1)}
+        position={garment.framing.modelOffset}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerOut={handlePointerOut}
+      />
     </group>
   );
 }
 
-function BackgroundElement({ background }: { background?: BackgroundSettings }) {
-  const { scene } = useThree();
-  const backgroundRef = useRef<THREE.Mesh>(null);
-  const textureLoader = useMemo(() => new THREE.TextureLoader(), []);
+// A garment whose model fails to load (missing file, bad export) shows the default
+// garment instead of taking the whole canvas down. Picking another garment tries again.
+class GarmentErrorBoundary extends React.Component<
+  { garmentId: string; fallback: React.ReactNode; children: React.ReactNode },
+  { failed: boolean; garmentId: string }
+> {
+  state = { failed: false, garmentId: this.props.garmentId };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  static getDerivedStateFromProps(props: { garmentId: string }, state: { garmentId: string }) {
+    return props.garmentId !== state.garmentId ? { failed: false, garmentId: props.garmentId } : null;
+  }
+
+  componentDidCatch(error: Error) {
+    console.error('❌ Garment model failed to load, showing the default garment:', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// Image-based lighting for reflections and fill: the rig's own environment, or an
+// uploaded HDR/EXR panorama
+function EnvironmentLighting({ lighting }: { lighting: LightingSettings }) {
+  const { gl, scene, invalidate } = useThree();
+  const rig = getLightingRig(lighting.rig);
+  const file = lighting.environment.type === 'file' ? lighting.environment : null;
+  const fileUrl = file?.url;
+  const fileFormat = file?.format;
 
+  // The map itself is only rebuilt when the rig or the panorama changes
   useEffect(() => {
-    if (!backgroundRef.current || !background) return;
+    const pmrem = new THREE.PMREMGenerator(gl);
+    let envMap: THREE.Texture | null = null;
+    let cancelled = false;
+
+    const apply = (map: THREE.Texture) => {
+      envMap = map;
+      scene.environment = map;
+      invalidate();
+    };
 
-    let material: THREE.Material;
+    if (fileUrl && fileFormat) {
+      loadEnvironmentFile(fileUrl, fileFormat)
+        .then((panorama) => {
+          if (cancelled) {
+            panorama.dispose();
+            return;
+          }
+          apply(pmrem.fromEquirectangular(panorama).texture);
+          panorama.dispose();
+        })
+        .catch((error) => {
+          console.error('❌ Environment file failed to load:', error);
+          if (!cancelled) apply(createRigEnvironmentMap(pmrem, lighting.rig));
+        });
+    } else {
+      apply(createRigEnvironmentMap(pmrem, lighting.rig));
+    }
 
-    switch (background.type) {
-      case 'color':
+    return () => {
+      cancelled = true;
+      if (scene.environment === envMap) scene.environment = null;
+      envMap?.dispose();
+      pmrem.dispose();
+    };
+  }, [gl, scene, invalidate, lighting.rig, fileUrl, fileFormat]);
+
+  useEffect(() => {
+    // Uploaded panoramas carry their own exposure, so only the rig maps get the rig's strength
+    scene.environmentIntensity = (fileUrl ? 1 : rig.environmentIntensity) * lighting.environmentIntensity;
+    scene.environmentRotation.set(0, THREE.MathUtils.degToRad(lighting.rotation), 0);
+    invalidate();
+  }, [scene, invalidate, rig, fileUrl, lighting.environmentIntensity, lighting.rotation]);
+
+  return null;
+}
+
+function RigLights({ lighting }: { lighting: LightingSettings }) {
+  const rig = getLightingRig(lighting.rig);
+
+  return (
+    <group rotation={[0, THREE.MathUtils.degToRad(lighting.rotation), 0]}>
+      {rig.lights.map((light, index) => {
+        const intensity = light.intensity * lighting.intensity;
+        switch (light.type) {
+          case 'ambient':
+            return <ambientLight key={index} color={light.color} intensity={intensity} />;
+          case 'hemisphere':
+            return <hemisphereLight key={index} args={[light.color, light.groundColor, intensity]} />;
+          case 'point':
+            return <pointLight key={index} color={light.color} intensity={intensity} position={light.position} />;
+          case 'directional':
+          default:
+            return <directionalLight key={index} color={light.color} intensity={intensity} position={light.position} castShadow={false} />;
+        }
+      })}
+    </group>
+  );
+}
+
+const backgroundLoader = new THREE.TextureLoader();
+
+// Each background owns its map (image or gradient canvas), so both go together
+const backgroundMaterials = createResourceCache<THREE.MeshBasicMaterial>((material) => {
+  material.map?.dispose();
+  material.dispose();
+});
+
+function createBackgroundMaterial(background: BackgroundSettings): THREE.MeshBasicMaterial {
+  let material: THREE.MeshBasicMaterial;
+
+  switch (background.type) {
+    case 'color':
+      material = new THREE.MeshBasicMaterial({
+        color: background.color || '#f8fafc',
+        side: THREE.BackSide
+      });
+      break;
+
+    case 'image':
+      if (background.image) {
+        const texture = backgroundLoader.load(background.image);
+        texture.wrapS = THREE.RepeatWrapping;
+        texture.wrapT = THREE.RepeatWrapping;
         material = new THREE.MeshBasicMaterial({
-          color: background.color || '#f8fafc',
+          map: texture,
           side: THREE.BackSide
         });
-        break;
-
-      case 'image':
-        if (background.image) {
-          const texture = textureLoader.load(background.image);
-          texture.wrapS = THREE.RepeatWrapping;
-          texture.wrapT = THREE.RepeatWrapping;
-          material = new THREE.MeshBasicMaterial({
-            map: texture,
-            side: THREE.BackSide
+      } else {
+        material = new THREE.MeshBasicMaterial({
+          color: '#f8fafc',
+          side: THREE.BackSide
+        });
+      }
+      break;
+
+    case 'gradient':
+      {
+        // Use a safe local fallback for gradient data so TypeScript can't complain about undefined
+        const gradientDef = background.gradient ?? { type: 'linear', colors: ['#f8fafc'], direction: 0 };
+
+        // Create canvas for gradient texture
+        const canvas = document.createElement('canvas');
+        canvas.width = 512;
+        canvas.height = 512;
+        const ctx = canvas.getContext('2d')!;
+
+        const colorsArr = gradientDef.colors && gradientDef.colors.length ? gradientDef.colors : ['#f8fafc'];
+
+        if (gradientDef.type === 'linear') {
+          const angle = (gradientDef.direction || 0) * Math.PI / 180;
+          const gradient = ctx.createLinearGradient(
+            0, 0,
+            Math.cos(angle) * 512,
+            Math.sin(angle) * 512
+          );
+          colorsArr.forEach((color, index) => {
+            const stop = colorsArr.length > 1 ? index / (colorsArr.length - 1) : 0;
+            gradient.addColorStop(stop, color);
           });
+          ctx.fillStyle = gradient;
+          ctx.fillRect(0, 0, 512, 512);
         } else {
-          material = new THREE.MeshBasicMaterial({
-            color: '#f8fafc',
-            side: THREE.BackSide
+          const gradient = ctx.createRadialGradient(256, 256, 0, 256, 256, 256);
+          colorsArr.forEach((color, index) => {
+            const stop = colorsArr.length > 1 ? index / (colorsArr.length - 1) : 0;
+            gradient.addColorStop(stop, color);
           });
+          ctx.fillStyle = gradient;
+          ctx.fillRect(0, 0, 512, 512);
         }
-        break;
-
-      case 'gradient':
-        {
-          // Use a safe local fallback for gradient data so TypeScript can't complain about undefined
-          const gradientDef = background.gradient ?? { type: 'linear', colors: ['#f8fafc'], direction: 0 };
-
-          // Create canvas for gradient texture
-          const canvas = document.createElement('canvas');
-          canvas.width = 512;
-          canvas.height = 512;
-          const ctx = canvas.getContext('2d')!;
-
-          const colorsArr = gradientDef.colors && gradientDef.colors.length ? gradientDef.colors : ['#f8fafc'];
-
-          if (gradientDef.type === 'linear') {
-            const angle = (gradientDef.direction || 0) * Math.PI / 180;
-            const gradient = ctx.createLinearGradient(
-              0, 0,
-              Math.cos(angle) * 512,
-              Math.sin(angle) * 512
-            );
-            colorsArr.forEach((color, index) => {
-              const stop = colorsArr.length > 1 ? index / (colorsArr.length - 1) : 0;
-              gradient.addColorStop(stop, color);
-            });
-            ctx.fillStyle = gradient;
-            ctx.fillRect(0, 0, 512, 512);
-          } else {
-            const gradient = ctx.createRadialGradient(256, 256, 0, 256, 256, 256);
-            colorsArr.forEach((color, index) => {
-              const stop = colorsArr.length > 1 ? index / (colorsArr.length - 1) : 0;
-              gradient.addColorStop(stop, color);
-            });
-            ctx.fillStyle = gradient;
-            ctx.fillRect(0, 0, 512, 512);
-          }
 
-          const gradientTexture = new THREE.CanvasTexture(canvas);
-          material = new THREE.MeshBasicMaterial({
-            map: gradientTexture,
-            side: THREE.BackSide
-          });
-        }
-        break;
-
-      default:
+        const gradientTexture = new THREE.CanvasTexture(canvas);
         material = new THREE.MeshBasicMaterial({
-          color: '#f8fafc',
+          map: gradientTexture,
           side: THREE.BackSide
         });
-    }
+      }
+      break;
 
+    default:
+      material = new THREE.MeshBasicMaterial({
+        color: '#f8fafc',
+        side: THREE.BackSide
+      });
+  }
+
+  return material;
+}
+
+function BackgroundElement({ background, dimmed }: { background?: BackgroundSettings, dimmed?: boolean }) {
+  const { scene, invalidate } = useThree();
+  const backgroundRef = useRef<THREE.Mesh>(null);
+  const heldRef = useRef<THREE.MeshBasicMaterial | null>(null);
+
+  useEffect(() => {
+    if (!backgroundRef.current) return;
+    // Without settings the backdrop is plain white, like the sphere's default material
+    const settings: BackgroundSettings = background ?? { type: 'color', color: '#ffffff' };
+
+    // Same settings come back as a new object on every parent render; reuse the material
+    const material = backgroundMaterials.acquire(`${dimmed ? 'dimmed|' : ''}${JSON.stringify(settings)}`, () => {
+      const created = createBackgroundMaterial(settings);
+      // The backdrop is unlit, so the glow preview darkens it directly
+      if (dimmed) created.color.multiplyScalar(GLOW_PREVIEW_DIM);
+      return created;
+    });
     backgroundRef.current.material = material;
-  }, [background, textureLoader]);
+    if (heldRef.current) backgroundMaterials.release(heldRef.current);
+    heldRef.current = material;
+    invalidate();
+  }, [background, dimmed, invalidate]);
+
+  useEffect(() => () => {
+    if (heldRef.current) backgroundMaterials.release(heldRef.current);
+    heldRef.current = null;
+  }, []);
 
   return (
     <mesh ref={backgroundRef} position={[0, 0, -5]}>
@@ -351,12 +762,88 @@ function BackgroundElement({ background }: { background?: BackgroundSettings })
   );
 }
 
-function AnimatedTShirt({ colors, textures, uvTextures, textureTransforms, motion, scale }: {
+// Floor under the garment. It sits below the lowest point of the float, outside the
+// bobbing group, so the contact shadow is re-rendered as the garment moves over it.
+function GarmentFloor({ floor, motion, garmentRef, garment, scale, color }: {
+  floor: FloorSettings,
+  motion?: MotionSettings,
+  garmentRef: React.RefObject<THREE.Group | null>,
+  garment?: GarmentDefinition,
+  scale?: number,
+  color: string
+}) {
+  const invalidate = useThree((state) => state.invalidate);
+  const [bounds, setBounds] = useState<{ bottom: number; size: number } | null>(null);
+
+  // Measured at rest, with the float offset taken back out
+  useEffect(() => {
+    const group = garmentRef.current;
+    if (!group) return;
+    const box = new THREE.Box3().setFromObject(group);
+    if (box.isEmpty()) return;
+    const size = box.getSize(new THREE.Vector3());
+    setBounds({ bottom: box.min.y - group.position.y, size: Math.max(size.x, size.z) });
+    invalidate();
+  }, [garmentRef, garment, scale, invalidate]);
+
+  if (!bounds) return null;
+
+  const amplitude = motion?.floating ? motion.floatingAmplitude : 0;
+  const y = bounds.bottom - amplitude - FLOOR_GAP;
+  const radius = Math.max(bounds.size * 2, 3);
+
+  return (
+    <group position={[0, y, 0]}>
+      {floor.reflection > 0 && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.001, 0]}>
+          <circleGeometry args={[radius, 64]} />
+          <MeshReflectorMaterial
+            color={color}
+            transparent
+            opacity={floor.reflection}
+            mirror={floor.reflection}
+            mixStrength={floor.reflection * 2}
+            mixBlur={1}
+            blur={[300, 100]}
+            resolution={512}
+            roughness={1}
+            depthScale={0.8}
+            minDepthThreshold={0.4}
+            maxDepthThreshold={1.4}
+          />
+        </mesh>
+      )}
+      {floor.shadowOpacity > 0 && (
+        <ContactShadows
+          opacity={floor.shadowOpacity}
+          blur={floor.shadowBlur}
+          far={getShadowReach(amplitude)}
+          scale={radius * 1.5}
+          resolution={512}
+          color="#000000"
+        />
+      )}
+    </group>
+  );
+}
+
+function AnimatedTShirt({ garment, colors, texture, textures, printSurfaces, glowPreview, uvTextures, textureTransforms, findDesign, onDesignMove, onDesignDrag, dragPreviews, onModelInspect, motion, floor, floorColor, scale }: {
+  garment?: GarmentDefinition,
   colors: TShirtModelProps['colors'],
+  texture?: TextureSettings,
   textures?: TShirtModelProps['textures'],
+  printSurfaces?: TShirtModelProps['printSurfaces'],
+  glowPreview?: boolean,
   uvTextures?: TShirtModelProps['uvTextures'],
   textureTransforms?: TShirtModelProps['textureTransforms'],
+  findDesign?: TShirtModelProps['findDesign'],
+  onDesignMove?: TShirtModelProps['onDesignMove'],
+  onDesignDrag?: TShirtModelProps['onDesignDrag'],
+  dragPreviews?: TShirtModelProps['dragPreviews'],
+  onModelInspect?: TShirtModelProps['onModelInspect'],
   motion?: MotionSettings,
+  floor?: FloorSettings,
+  floorColor?: string,
   scale?: number
 }) {
   const groupRef = useRef<THREE.Group>(null);
@@ -376,7 +863,6 @@ function AnimatedTShirt({ colors, textures, uvTextures, textureTransforms, motio
       const rotationSpeed = motion.rotationSpeed * 0.01; // Increased for visibility
       const direction = motion.rotationDirection === 'clockwise' ? 1 : -1;
       groupRef.current.rotation.y += rotationSpeed * direction;
-      console.log('🔄 Rotating:', { speed: rotationSpeed, direction, currentRotation: groupRef.current.rotation.y });
     }
 
     // Floating animation - only if enabled
@@ -384,14 +870,30 @@ function AnimatedTShirt({ colors, textures, uvTextures, textureTransforms, motio
       const floatingSpeed = motion.floatingSpeed * 0.03;
       const floatingAmplitude = motion.floatingAmplitude;
       groupRef.current.position.y = Math.sin(time * floatingSpeed) * floatingAmplitude;
-      console.log('🌊 Floating:', { time, floatingSpeed, amplitude: floatingAmplitude, positionY: groupRef.current.position.y });
     }
   });
 
   return (
-    <group ref={groupRef}>
-      <TShirtModel colors={colors} textures={textures} uvTextures={uvTextures} textureTransforms={textureTransforms} scale={scale} />
-    </group>
+    <>
+      <group ref={groupRef}>
+        <GarmentErrorBoundary
+          garmentId={garment?.id ?? DEFAULT_GARMENT.id}
+          fallback={<TShirtModel garment={DEFAULT_GARMENT} colors={getDefaultColors(DEFAULT_GARMENT)} texture={texture} onModelInspect={onModelInspect} scale={scale} />}
+        >
+          <TShirtModel garment={garment} colors={colors} texture={texture} textures={textures} printSurfaces={printSurfaces} glowPreview={glowPreview} uvTextures={uvTextures} textureTransforms={textureTransforms} findDesign={findDesign} onDesignMove={onDesignMove} onDesignDrag={onDesignDrag} dragPreviews={dragPreviews} onModelInspect={onModelInspect} scale={scale} />
+        </GarmentErrorBoundary>
+      </group>
+      {floor?.enabled && (
+        <GarmentFloor
+          floor={floor}
+          motion={motion}
+          garmentRef={groupRef}
+          garment={garment}
+          scale={scale}
+          color={floorColor ?? '#ffffff'}
+        />
+      )}
+    </>
   );
 }
 
@@ -425,27 +927,115 @@ function AnimatedCamera({ motion }: { motion?: MotionSettings }) {
     camera.position.y = Math.sin(time * speed * 0.3) * 1.5 + 2; // Reduced vertical movement
 
     camera.lookAt(0, 0, 0);
-
-    console.log('📷 Camera animating:', {
-      time,
-      speed,
-      position: { x: camera.position.x, y: camera.position.y, z: camera.position.z }
-    });
   });
 
   return null;
 }
 
-function SceneContent({ colors, background, motion, texture, scale, aspectRatio, textures, uvTextures, textureTransforms }: {
+// Textures that finish decoding outside React (fabric swatches, custom patterns,
+// background images) need a frame of their own when the canvas renders on demand
+function RenderOnTextureLoad() {
+  const invalidate = useThree((state) => state.invalidate);
+
+  useEffect(() => {
+    const manager = THREE.DefaultLoadingManager;
+    const previous = manager.onProgress;
+    manager.onProgress = (url, loaded, total) => {
+      previous?.(url, loaded, total);
+      invalidate();
+    };
+    return () => {
+      manager.onProgress = previous;
+    };
+  }, [invalidate]);
+
+  return null;
+}
+
+// Takes over the canvas's rendering while any effect is on:
+// scene → ambient occlusion → depth of field → bloom → vignette → tone mapping
+function PostProcessingStack({ settings }: { settings: PostProcessingSettings }) {
+  const { gl, scene, camera, size, viewport, invalidate } = useThree();
+
+  const passes = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const ambientOcclusion = new GTAOPass(scene, camera);
+    ambientOcclusion.updateGtaoMaterial({ radius: 0.25 });
+    const depthOfField = new BokehPass(scene, camera, { focus: 6, aperture: 0.003, maxblur: 0.006 });
+    const bloom = new UnrealBloomPass(new THREE.Vector2(256, 256), 0.45, 0.4, 0.85); // highlights only
+    const vignette = new ShaderPass(VignetteShader);
+
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(ambientOcclusion);
+    composer.addPass(depthOfField);
+    composer.addPass(bloom);
+    composer.addPass(vignette);
+    composer.addPass(new OutputPass());
+    return { composer, ambientOcclusion, depthOfField, bloom, vignette };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => {
+    passes.composer.passes.forEach((pass) => pass.dispose());
+    passes.composer.dispose();
+  }, [passes]);
+
+  useEffect(() => {
+    passes.composer.setPixelRatio(viewport.dpr);
+    passes.composer.setSize(size.width, size.height);
+    invalidate();
+  }, [passes, size, viewport.dpr, invalidate]);
+
+  useEffect(() => {
+    const { ambientOcclusion, depthOfField, bloom, vignette } = settings.effects;
+    const dofUniforms = passes.depthOfField.uniforms as Record<string, THREE.IUniform<number>>;
+
+    passes.ambientOcclusion.enabled = ambientOcclusion.enabled;
+    passes.ambientOcclusion.blendIntensity = ambientOcclusion.amount;
+    passes.depthOfField.enabled = depthOfField.enabled;
+    dofUniforms.maxblur.value = depthOfField.amount * 0.015;
+    passes.bloom.enabled = bloom.enabled;
+    passes.bloom.strength = bloom.amount * 1.5;
+    passes.vignette.enabled = vignette.enabled;
+    passes.vignette.uniforms.darkness.value = vignette.amount * 2;
+    invalidate();
+  }, [passes, settings, invalidate]);
+
+  // A positive priority replaces the default render
+  useFrame((_, delta) => {
+    // The orbit target stays on the garment at the origin, so keep it in focus as the camera moves
+    const dofUniforms = passes.depthOfField.uniforms as Record<string, THREE.IUniform<number>>;
+    dofUniforms.focus.value = camera.position.length();
+    passes.composer.render(delta);
+  }, 1);
+
+  return null;
+}
+
+function isMotionActive(motion?: MotionSettings) {
+  return !!motion && (motion.autoRotate || motion.floating || motion.cameraAnimation);
+}
+
+function SceneContent({ garment, colors, background, motion, lighting, floor, postProcessing, texture, scale, aspectRatio, textures, printSurfaces, glowPreview, uvTextures, textureTransforms, findDesign, onDesignMove, onDesignDrag, dragPreviews, onModelInspect }: {
+  garment?: GarmentDefinition,
   colors: TShirtModelProps['colors'],
   background?: BackgroundSettings,
   motion?: MotionSettings,
+  lighting?: LightingSettings,
+  floor?: FloorSettings,
+  postProcessing?: PostProcessingSettings,
   texture?: TextureSettings,
   scale?: number,
   aspectRatio?: string,
   textures?: TShirtModelProps['textures'],
+  printSurfaces?: TShirtModelProps['printSurfaces'],
+  glowPreview?: boolean,
   uvTextures?: TShirtModelProps['uvTextures'],
-  textureTransforms?: TShirtModelProps['textureTransforms']
+  textureTransforms?: TShirtModelProps['textureTransforms'],
+  findDesign?: TShirtModelProps['findDesign'],
+  onDesignMove?: TShirtModelProps['onDesignMove'],
+  onDesignDrag?: TShirtModelProps['onDesignDrag'],
+  dragPreviews?: TShirtModelProps['dragPreviews'],
+  onModelInspect?: TShirtModelProps['onModelInspect']
 }) {
   // Debug motion props in SceneContent
   useEffect(() => {
@@ -475,36 +1065,52 @@ function SceneContent({ colors, background, motion, texture, scale, aspectRatio,
 
   const { width, height } = getAspectRatioDimensions(aspectRatio || '16:9');
 
+  // Previewing glow ink turns the room down until only the glow pigment reads
+  const baseLighting = lighting ?? DEFAULT_LIGHTING_SETTINGS;
+  const sceneLighting = glowPreview
+    ? {
+      ...baseLighting,
+      intensity: baseLighting.intensity * GLOW_PREVIEW_DIM,
+      environmentIntensity: baseLighting.environmentIntensity * GLOW_PREVIEW_DIM,
+    }
+    : baseLighting;
+
   return (
     <>
-      {/* Enhanced lighting setup for better 3D appearance */}
-      <ambientLight intensity={0.6} />
-      <directionalLight
-        position={[5, 5, 5]}
-        intensity={1.2}
-        castShadow={false}
-      />
-      <directionalLight
-        position={[-5, 3, 2]}
-        intensity={0.8}
-      />
-      <pointLight position={[0, 2, 3]} intensity={0.5} />
+      {/* Lighting rig and its environment */}
+      <RigLights lighting={sceneLighting} />
+      <EnvironmentLighting lighting={sceneLighting} />
+      <RenderOnTextureLoad />
 
       {/* 3D Background Element */}
-      <BackgroundElement background={background} />
+      <BackgroundElement background={background} dimmed={glowPreview} />
 
       <AnimatedTShirt
+        garment={garment}
         colors={colors}
+        texture={texture}
         textures={textures}
+        printSurfaces={printSurfaces}
+        glowPreview={glowPreview}
         uvTextures={uvTextures}
         textureTransforms={textureTransforms}
+        findDesign={findDesign}
+        onDesignMove={onDesignMove}
+        onDesignDrag={onDesignDrag}
+        dragPreviews={dragPreviews}
+        onModelInspect={onModelInspect}
         motion={motion}
+        floor={floor}
+        floorColor={background?.type === 'color' ? background.color : undefined}
         scale={scaleFactor}
       />
 
       <AnimatedCamera motion={motion} />
+      <GarmentFraming garment={garment} aspectRatio={aspectRatio} />
+      {postProcessing && hasActiveEffects(postProcessing) && <PostProcessingStack settings={postProcessing} />}
 
       <OrbitControls
+        makeDefault
         enablePan={!motion?.cameraAnimation}
         enableZoom={true}
         enableRotate={!motion?.autoRotate && !motion?.cameraAnimation}
@@ -520,6 +1126,48 @@ function SceneContent({ colors, background, motion, texture, scale, aspectRatio,
   );
 }
 
+// Calculate camera settings based on aspect ratio and the garment's framing
+function getCameraSettings(ratio: string, garment: GarmentDefinition) {
+  const baseDistance = garment.framing.cameraDistance;
+  const y = garment.framing.cameraHeight;
+  switch (ratio) {
+    case '16:9':
+      return { position: [0, y, baseDistance] as [number, number, number], fov: 45 };
+    case '4:3':
+      return { position: [0, y, baseDistance * 1.1] as [number, number, number], fov: 50 };
+    case '1:1':
+      return { position: [0, y, baseDistance * 1.2] as [number, number, number], fov: 55 };
+    case '9:16':
+      return { position: [0, y, baseDistance * 0.9] as [number, number, number], fov: 40 };
+    default:
+      return { position: [0, y, baseDistance] as [number, number, number], fov: 45 };
+  }
+}
+
+// The Canvas only reads its camera prop on mount, so re-frame when the garment changes
+function GarmentFraming({ garment, aspectRatio }: { garment?: GarmentDefinition, aspectRatio?: string }) {
+  const { camera, controls, invalidate } = useThree();
+
+  useEffect(() => {
+    const { position, fov } = getCameraSettings(aspectRatio || '16:9', garment || DEFAULT_GARMENT);
+    camera.position.set(...position);
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    }
+    camera.lookAt(0, 0, 0);
+
+    const orbit = controls as unknown as { target: THREE.Vector3; update: () => void } | null;
+    if (orbit) {
+      orbit.target.set(0, 0, 0);
+      orbit.update();
+    }
+    invalidate();
+  }, [camera, controls, garment, aspectRatio, invalidate]);
+
+  return null;
+}
+
 function LoadingFallback() {
   return (
     <div className="flex items-center justify-center w-full h-full">
@@ -551,28 +1199,15 @@ interface MotionSettings {
   animationPreset: 'none' | 'subtle' | 'dynamic' | 'presentation';
 }
 
-interface TextureSettings {
-  fabricType: 'cotton' | 'polyester' | 'wool' | 'linen' | 'silk' | 'denim';
-  finish: 'matte' | 'glossy' | 'metallic' | 'pearlescent';
-  pattern: 'none' | 'subtle' | 'bold' | 'geometric' | 'floral';
-  roughness: number;
-  metallic: number;
-  normalStrength: number;
-  preset: 'none' | 'casual' | 'formal' | 'sporty' | 'luxury';
-}
-
 interface Scene3DProps {
   className?: string;
-  colors: {
-    body: string;
-    neck: string;
-    neckBorder: string;
-    cuff: string;
-    buttons: string;
-    ribbedHem: string;
-  };
+  garment?: GarmentDefinition;
+  colors: GarmentColors;
   background?: BackgroundSettings;
   motion?: MotionSettings;
+  lighting?: LightingSettings;
+  floor?: FloorSettings;
+  postProcessing?: PostProcessingSettings;
   texture?: TextureSettings;
   scale?: number;
   aspectRatio?: string;
@@ -582,6 +1217,8 @@ interface Scene3DProps {
     leftSleeve?: string;
     rightSleeve?: string;
   };
+  printSurfaces?: TShirtModelProps['printSurfaces'];
+  glowPreview?: boolean;
   uvTextures?: {
     front?: UVTextureData;
     back?: UVTextureData;
@@ -594,12 +1231,14 @@ interface Scene3DProps {
     leftSleeve?: TextureTransform;
     rightSleeve?: TextureTransform;
   };
+  findDesign?: TShirtModelProps['findDesign'];
+  onDesignMove?: TShirtModelProps['onDesignMove'];
+  onDesignDrag?: TShirtModelProps['onDesignDrag'];
+  dragPreviews?: TShirtModelProps['dragPreviews'];
+  onModelInspect?: TShirtModelProps['onModelInspect']; // mesh/UV report for the model inspector
 }
 
-export default function Scene3D({ className = '', colors, background, motion, texture, scale, aspectRatio, textures, uvTextures, textureTransforms }: Scene3DProps) {
-  // 🔥 ULTIMATE TEST: Log received props immediately
-  console.log('🔥 RECEIVED PROPS:', { textures, textureTransforms, background, motion });
-
+export default function Scene3D({ className = '', garment, colors, background, motion, lighting, floor, postProcessing, texture, scale, aspectRatio, textures, printSurfaces, glowPreview, uvTextures, textureTransforms, findDesign, onDesignMove, onDesignDrag, dragPreviews, onModelInspect }: Scene3DProps) {
   const [contextLost, setContextLost] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -649,30 +1288,15 @@ export default function Scene3D({ className = '', colors, background, motion, te
     );
   }
 
-  // Calculate camera settings based on aspect ratio
-  const getCameraSettings = (ratio: string) => {
-    const baseDistance = 6.5;
-    switch (ratio) {
-      case '16:9':
-        return { position: [0, 0, baseDistance] as [number, number, number], fov: 45 };
-      case '4:3':
-        return { position: [0, 0, baseDistance * 1.1] as [number, number, number], fov: 50 };
-      case '1:1':
-        return { position: [0, 0, baseDistance * 1.2] as [number, number, number], fov: 55 };
-      case '9:16':
-        return { position: [0, 0, baseDistance * 0.9] as [number, number, number], fov: 40 };
-      default:
-        return { position: [0, 0, baseDistance] as [number, number, number], fov: 45 };
-    }
-  };
-
-  const cameraSettings = getCameraSettings(aspectRatio || '16:9');
+  const cameraSettings = getCameraSettings(aspectRatio || '16:9', garment || DEFAULT_GARMENT);
 
   return (
     <div className={`w-full h-full ${className} relative`}>
       <Canvas
         ref={canvasRef}
         camera={cameraSettings}
+        // Idle scenes only draw when something changes; motion presets need every frame
+        frameloop={isMotionActive(motion) ? 'always' : 'demand'}
         style={{ background: 'transparent' }}
         gl={{
           antialias: true,
@@ -688,15 +1312,26 @@ export default function Scene3D({ className = '', colors, background, motion, te
       >
         <Suspense fallback={null}>
           <SceneContent
+            garment={garment}
             colors={colors}
             background={background}
             motion={motion}
+            lighting={lighting}
+            floor={floor}
+            postProcessing={postProcessing}
             texture={texture}
             scale={scale}
             aspectRatio={aspectRatio}
             textures={textures}
+            printSurfaces={printSurfaces}
+            glowPreview={glowPreview}
             uvTextures={uvTextures}
             textureTransforms={textureTransforms}
+            findDesign={findDesign}
+            onDesignMove={onDesignMove}
+            onDesignDrag={onDesignDrag}
+            dragPreviews={dragPreviews}
+            onModelInspect={onModelInspect}
           />
         </Suspense>
       </Canvas>
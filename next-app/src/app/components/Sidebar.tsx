@@ -1,6 +1,13 @@
 'use client';
 
 import { useState, useRef } from 'react';
+import type { CustomTextureSettings, SwatchPart, TextureSettings } from '../lib/fabricMaterial';
+import { DEFAULT_GARMENT, type GarmentColors, type GarmentDefinition } from '../lib/garments';
+import { DEFAULT_FLOOR_SETTINGS, type FloorSettings } from '../lib/floor';
+import { DEFAULT_POST_PROCESSING, POST_EFFECTS, type PostEffectId, type PostProcessingSettings } from '../lib/postProcessing';
+import { DEFAULT_LIGHTING_SETTINGS, LIGHTING_RIGS, getEnvironmentFormat, type LightingSettings } from '../lib/lighting';
+import PatternCreator from './PatternCreator';
+import GarmentPicker from './GarmentPicker';
 
 interface ColorPickerProps {
   label: string;
@@ -56,36 +63,27 @@ interface MotionSettings {
   animationPreset: 'none' | 'subtle' | 'dynamic' | 'presentation';
 }
 
-interface TextureSettings {
-  fabricType: 'cotton' | 'polyester' | 'wool' | 'linen' | 'silk' | 'denim';
-  finish: 'matte' | 'glossy' | 'metallic' | 'pearlescent';
-  pattern: 'none' | 'subtle' | 'bold' | 'geometric' | 'floral';
-  roughness: number;
-  metallic: number;
-  normalStrength: number;
-  preset: 'none' | 'casual' | 'formal' | 'sporty' | 'luxury';
-}
-
 interface SidebarProps {
   className?: string;
-  colors: {
-    body: string;
-    neck: string;
-    neckBorder: string;
-    cuff: string;
-    buttons: string;
-    ribbedHem: string;
-  };
+  garment?: GarmentDefinition;
+  colors: GarmentColors;
   background?: BackgroundSettings;
   motion?: MotionSettings;
+  lighting?: LightingSettings;
+  floor?: FloorSettings;
+  postProcessing?: PostProcessingSettings;
   texture?: TextureSettings;
   onColorChange: (part: string, color: string) => void;
+  onGarmentChange?: (garment: GarmentDefinition) => void;
   onBackgroundChange?: (background: BackgroundSettings) => void;
   onMotionChange?: (motion: MotionSettings) => void;
+  onLightingChange?: (lighting: LightingSettings) => void;
+  onFloorChange?: (floor: FloorSettings) => void;
+  onPostProcessingChange?: (postProcessing: PostProcessingSettings) => void;
   onTextureChange?: (texture: TextureSettings) => void;
 }
 
-export default function Sidebar({ className = '', colors, onColorChange, background, onBackgroundChange, motion, onMotionChange, texture, onTextureChange }: SidebarProps) {
+export default function Sidebar({ className = '', garment = DEFAULT_GARMENT, colors, onColorChange, onGarmentChange, background, onBackgroundChange, motion, onMotionChange, lighting, onLightingChange, floor, onFloorChange, postProcessing, onPostProcessingChange, texture, onTextureChange }: SidebarProps) {
   const [activeTool, setActiveTool] = useState('edit');
   const [bgSettings, setBgSettings] = useState<BackgroundSettings>(
     background || {
@@ -114,10 +112,19 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
       roughness: 0.5,
       metallic: 0.0,
       normalStrength: 0.5,
-      preset: 'none'
+      preset: 'none',
+      patternColor: '#1e3a8a',
+      patternScale: 6,
+      patternRotation: 0
     }
   );
+  const [lightingSettings, setLightingSettings] = useState<LightingSettings>(lighting || DEFAULT_LIGHTING_SETTINGS);
+  const [floorSettings, setFloorSettings] = useState<FloorSettings>(floor || DEFAULT_FLOOR_SETTINGS);
+  // Read straight from props: the saved design is only loaded after the sidebar mounts
+  const effectSettings = postProcessing || DEFAULT_POST_PROCESSING;
+  const [showPatternCreator, setShowPatternCreator] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const environmentFileInputRef = useRef<HTMLInputElement>(null);
   const textureFileInputRef = useRef<HTMLInputElement>(null);
 
   const handleColorChange = (part: string, color: string) => {
@@ -134,6 +141,48 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
     onTextureChange?.(newSettings);
   };
 
+  const updateFloor = (newSettings: FloorSettings) => {
+    setFloorSettings(newSettings);
+    onFloorChange?.(newSettings);
+  };
+
+  const updateEffects = (newSettings: PostProcessingSettings) => {
+    onPostProcessingChange?.(newSettings);
+  };
+
+  const updateEffect = (id: PostEffectId, changes: Partial<PostProcessingSettings['effects'][PostEffectId]>) => {
+    updateEffects({
+      ...effectSettings,
+      effects: { ...effectSettings.effects, [id]: { ...effectSettings.effects[id], ...changes } }
+    });
+  };
+
+  const updateLighting = (newSettings: LightingSettings) => {
+    setLightingSettings(newSettings);
+    onLightingChange?.(newSettings);
+  };
+
+  // HDR/EXR panoramas run to tens of megabytes, so they stay as blob URLs rather than data URLs
+  const handleEnvironmentUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const format = getEnvironmentFormat(file);
+    if (!format) {
+      alert('Please upload an .hdr or .exr file');
+      return;
+    }
+    clearEnvironmentFile();
+    updateLighting({
+      ...lightingSettings,
+      environment: { type: 'file', url: URL.createObjectURL(file), name: file.name, format }
+    });
+  };
+
+  const clearEnvironmentFile = () => {
+    if (lightingSettings.environment.type === 'file') URL.revokeObjectURL(lightingSettings.environment.url);
+  };
+
   const handleBackgroundTypeChange = (type: 'color' | 'image' | 'gradient') => {
     if (type === 'gradient') {
       updateBackground({
@@ -272,6 +321,18 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
     updateTexture({ ...textureSettings, pattern });
   };
 
+  const handlePatternColorChange = (patternColor: string) => {
+    updateTexture({ ...textureSettings, patternColor });
+  };
+
+  const handlePatternScaleChange = (patternScale: number) => {
+    updateTexture({ ...textureSettings, patternScale });
+  };
+
+  const handlePatternRotationChange = (patternRotation: number) => {
+    updateTexture({ ...textureSettings, patternRotation });
+  };
+
   const handleRoughnessChange = (roughness: number) => {
     updateTexture({ ...textureSettings, roughness });
   };
@@ -294,16 +355,47 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
       const reader = new FileReader();
       reader.onload = (e) => {
         const textureUrl = e.target?.result as string;
-        // Here you would typically upload to a texture URL or process the texture
-        console.log('Custom texture loaded:', textureUrl);
-        alert('Custom texture loaded! (In a real app, this would be applied to the 3D model)');
+        updateTexture({
+          ...textureSettings,
+          customTexture: {
+            repeat: 8,
+            offsetX: 0,
+            offsetY: 0,
+            rotation: 0,
+            parts: ['body', 'cuff', 'ribbedHem'],
+            ...textureSettings.customTexture,
+            url: textureUrl,
+          },
+        });
       };
       reader.readAsDataURL(file);
     }
+    // Allow re-selecting the same file after removing it
+    event.target.value = '';
+  };
+
+  const updateCustomTexture = (changes: Partial<CustomTextureSettings>) => {
+    if (!textureSettings.customTexture) return;
+    updateTexture({ ...textureSettings, customTexture: { ...textureSettings.customTexture, ...changes } });
+  };
+
+  const toggleCustomTexturePart = (part: SwatchPart) => {
+    const parts = textureSettings.customTexture?.parts || [];
+    updateCustomTexture({
+      parts: parts.includes(part) ? parts.filter((p) => p !== part) : [...parts, part],
+    });
+  };
+
+  const handleRemoveCustomTexture = () => {
+    updateTexture({ ...textureSettings, customTexture: undefined });
   };
 
   const handleCreatePattern = () => {
-    alert('Pattern creator opened! (In a real app, this would open a pattern design tool)');
+    setShowPatternCreator(true);
+  };
+
+  const handlePatternCreatorPreview = (customPatternUrl: string) => {
+    updateTexture({ ...textureSettings, pattern: 'custom', customPatternUrl });
   };
 
   const handleResetTexture = () => {
@@ -314,7 +406,10 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
       roughness: 0.5,
       metallic: 0.0,
       normalStrength: 0.5,
-      preset: 'none'
+      preset: 'none',
+      patternColor: '#1e3a8a',
+      patternScale: 6,
+      patternRotation: 0
     });
   };
 
@@ -322,6 +417,8 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
     { id: 'edit', label: 'Edit', icon: '✏️' },
     { id: 'background', label: 'Background', icon: '🖼️' },
     { id: 'motion', label: 'Motion', icon: '🎬' },
+    { id: 'lighting', label: 'Lighting', icon: '💡' },
+    { id: 'effects', label: 'Effects', icon: '✨' },
     { id: 'texture', label: 'Texture', icon: '🧵' },
   ];
 
@@ -329,7 +426,7 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
     <div className={`w-80 bg-white border-r border-gray-200 flex flex-col ${className}`}>
       {/* Header */}
       <div className="p-4 border-b border-gray-200">
-        <h1 className="text-xl font-semibold text-gray-800">3D Polo Tshirt Mockup</h1>
+        <h1 className="text-xl font-semibold text-gray-800">3D {garment.name} Mockup</h1>
         <p className="text-sm text-gray-600">Customizable Design Template</p>
       </div>
 
@@ -375,40 +472,27 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
               </div>
             </div>
 
+            {/* Garment Section */}
+            {onGarmentChange && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">GARMENT</h3>
+                <GarmentPicker selected={garment} onSelect={onGarmentChange} />
+              </div>
+            )}
+
             {/* Color Section */}
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-4">COLOR</h3>
               <div className="space-y-4">
-                <ColorPicker
-                  label="Body"
-                  value={colors.body}
-                  onChange={(color) => handleColorChange('body', color)}
-                />
-                <ColorPicker
-                  label="Neck"
-                  value={colors.neck}
-                  onChange={(color) => handleColorChange('neck', color)}
-                />
-                <ColorPicker
-                  label="Neck-Border"
-                  value={colors.neckBorder}
-                  onChange={(color) => handleColorChange('neckBorder', color)}
-                />
-                <ColorPicker
-                  label="Cuff"
-                  value={colors.cuff}
-                  onChange={(color) => handleColorChange('cuff', color)}
-                />
-                <ColorPicker
-                  label="Buttons"
-                  value={colors.buttons}
-                  onChange={(color) => handleColorChange('buttons', color)}
-                />
-                <ColorPicker
-                  label="Ribbed-Hem"
-                  value={colors.ribbedHem}
-                  onChange={(color) => handleColorChange('ribbedHem', color)}
-                />
+                {/* One picker per part declared by the garment */}
+                {garment.parts.map((part) => (
+                  <ColorPicker
+                    key={part.id}
+                    label={part.label}
+                    value={colors[part.id] ?? part.defaultColor}
+                    onChange={(color) => handleColorChange(part.id, color)}
+                  />
+                ))}
               </div>
             </div>
           </div>
@@ -490,13 +574,6 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                     onChange={handleImageUpload}
                     className="hidden"
                   />
-                  <input
-                    ref={textureFileInputRef}
-                    type="file"
-                    accept="image/*"
-                    onChange={handleCustomTextureUpload}
-                    className="hidden"
-                  />
                   {bgSettings.image && (
                     <div className="relative">
                       <img
@@ -633,6 +710,79 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                 </div>
               </div>
             )}
+
+            {/* Floor */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">FLOOR</h3>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-gray-700">Show Floor</label>
+                  <button
+                    onClick={() => updateFloor({ ...floorSettings, enabled: !floorSettings.enabled })}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${floorSettings.enabled ? 'bg-pink-500' : 'bg-gray-200'
+                      }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${floorSettings.enabled ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                    />
+                  </button>
+                </div>
+
+                {floorSettings.enabled && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Shadow: {Math.round(floorSettings.shadowOpacity * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={floorSettings.shadowOpacity}
+                        onChange={(e) => updateFloor({ ...floorSettings, shadowOpacity: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Softness: {floorSettings.shadowBlur.toFixed(1)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="5"
+                        step="0.1"
+                        value={floorSettings.shadowBlur}
+                        onChange={(e) => updateFloor({ ...floorSettings, shadowBlur: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Reflection: {Math.round(floorSettings.reflection * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={floorSettings.reflection}
+                        onChange={(e) => updateFloor({ ...floorSettings, reflection: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                      The floor drops below the float when floating is on, and the shadow follows the garment
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
           </div>
         )}
 
@@ -899,6 +1049,190 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
           </div>
         )}
 
+        {activeTool === 'lighting' && (
+          <div className="space-y-6">
+            {/* Lighting Rigs */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">LIGHTING SETUP</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {LIGHTING_RIGS.map((rig) => (
+                  <button
+                    key={rig.id}
+                    onClick={() => updateLighting({ ...lightingSettings, rig: rig.id })}
+                    className={`p-3 rounded-lg border-2 text-center transition-colors ${lightingSettings.rig === rig.id
+                      ? 'border-pink-500 bg-pink-50 text-pink-700'
+                      : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                  >
+                    <div className="text-2xl mb-1">{rig.icon}</div>
+                    <div className="text-sm font-medium">{rig.label}</div>
+                    <div className="text-xs text-gray-500 mt-1">{rig.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Light Controls */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">LIGHTS</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Intensity: {lightingSettings.intensity.toFixed(1)}x
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="2"
+                    step="0.1"
+                    value={lightingSettings.intensity}
+                    onChange={(e) => updateLighting({ ...lightingSettings, intensity: parseFloat(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rotation: {lightingSettings.rotation}°
+                  </label>
+                  <input
+                    type="range"
+                    min="-180"
+                    max="180"
+                    step="5"
+                    value={lightingSettings.rotation}
+                    onChange={(e) => updateLighting({ ...lightingSettings, rotation: parseInt(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Environment */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">ENVIRONMENT</h3>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => {
+                      clearEnvironmentFile();
+                      updateLighting({ ...lightingSettings, environment: { type: 'rig' } });
+                    }}
+                    className={`p-2 rounded-lg border text-sm transition-colors ${lightingSettings.environment.type === 'rig'
+                      ? 'border-pink-500 bg-pink-50 text-pink-700'
+                      : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                  >
+                    Match Setup
+                  </button>
+                  <button
+                    onClick={() => environmentFileInputRef.current?.click()}
+                    className={`p-2 rounded-lg border text-sm transition-colors ${lightingSettings.environment.type === 'file'
+                      ? 'border-pink-500 bg-pink-50 text-pink-700'
+                      : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                  >
+                    Upload HDRI
+                  </button>
+                </div>
+                <input
+                  ref={environmentFileInputRef}
+                  type="file"
+                  accept=".hdr,.exr"
+                  onChange={handleEnvironmentUpload}
+                  className="hidden"
+                />
+                {lightingSettings.environment.type === 'file' && (
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 rounded-lg text-sm">
+                    <span className="truncate text-gray-700">{lightingSettings.environment.name}</span>
+                    <span className="text-xs text-gray-500 uppercase">{lightingSettings.environment.format}</span>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  Equirectangular .hdr or .exr panoramas light the garment and show in its reflections
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Strength: {lightingSettings.environmentIntensity.toFixed(1)}x
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="3"
+                    step="0.1"
+                    value={lightingSettings.environmentIntensity}
+                    onChange={(e) => updateLighting({ ...lightingSettings, environmentIntensity: parseFloat(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTool === 'effects' && (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">POST-PROCESSING</h3>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">Enable Effects</label>
+                <button
+                  onClick={() => updateEffects({ ...effectSettings, enabled: !effectSettings.enabled })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${effectSettings.enabled ? 'bg-pink-500' : 'bg-gray-200'
+                    }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${effectSettings.enabled ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                  />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Saved with the design</p>
+            </div>
+
+            {effectSettings.enabled && POST_EFFECTS.map(({ id, label, description }) => {
+              const effect = effectSettings.effects[id];
+              return (
+                <div key={id}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">{label}</label>
+                      <p className="text-xs text-gray-500">{description}</p>
+                    </div>
+                    <button
+                      onClick={() => updateEffect(id, { enabled: !effect.enabled })}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${effect.enabled ? 'bg-pink-500' : 'bg-gray-200'
+                        }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${effect.enabled ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                      />
+                    </button>
+                  </div>
+                  {effect.enabled && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Amount: {Math.round(effect.amount * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={effect.amount}
+                        onChange={(e) => updateEffect(id, { amount: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {activeTool === 'texture' && (
           <div className="space-y-6">
             {/* Texture Presets */}
@@ -990,7 +1324,8 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                   { pattern: 'subtle' as const, label: 'Subtle', icon: '👁️' },
                   { pattern: 'bold' as const, label: 'Bold', icon: '🎯' },
                   { pattern: 'geometric' as const, label: 'Geometric', icon: '📐' },
-                  { pattern: 'floral' as const, label: 'Floral', icon: '🌸' }
+                  { pattern: 'floral' as const, label: 'Floral', icon: '🌸' },
+                  ...(textureSettings.customPatternUrl ? [{ pattern: 'custom' as const, label: 'Custom', icon: '🎨' }] : [])
                 ].map((option) => (
                   <button
                     key={option.pattern}
@@ -1005,6 +1340,53 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                   </button>
                 ))}
               </div>
+
+              {textureSettings.pattern !== 'none' && (
+                <div className="mt-4 space-y-4">
+                  {textureSettings.pattern !== 'custom' && (
+                    <ColorPicker
+                      label="Pattern Color"
+                      value={textureSettings.patternColor}
+                      onChange={handlePatternColorChange}
+                    />
+                  )}
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-gray-700">Tile Scale</label>
+                      <span className="text-sm text-gray-500">{textureSettings.patternScale}×</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="24"
+                      step="1"
+                      value={textureSettings.patternScale}
+                      onChange={(e) => handlePatternScaleChange(parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>Large</span>
+                      <span>Small</span>
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-gray-700">Rotation</label>
+                      <span className="text-sm text-gray-500">{textureSettings.patternRotation}°</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="360"
+                      value={textureSettings.patternRotation}
+                      onChange={(e) => handlePatternRotationChange(parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Material Properties */}
@@ -1084,7 +1466,9 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                   <div className="text-center">
                     <div className="text-2xl mb-2">👕</div>
                     <div className="text-sm text-gray-600">Texture Preview</div>
-                    <div className="text-xs text-gray-500 mt-1">Cotton • Matte • Smooth</div>
+                    <div className="text-xs text-gray-500 mt-1 capitalize">
+                      {textureSettings.fabricType} • {textureSettings.finish} • {textureSettings.pattern === 'none' ? 'smooth' : textureSettings.pattern}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1098,8 +1482,120 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
                   onClick={handleLoadCustomTexture}
                   className="w-full p-3 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
                 >
-                  📁 Load Custom Texture
+                  📁 {textureSettings.customTexture ? 'Replace Custom Texture' : 'Load Custom Texture'}
                 </button>
+                <input
+                  ref={textureFileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleCustomTextureUpload}
+                  className="hidden"
+                />
+
+                {textureSettings.customTexture && (
+                  <div className="border border-gray-200 rounded-lg p-3 space-y-4">
+                    <div className="relative">
+                      <div
+                        className="w-full h-20 rounded border"
+                        style={{
+                          backgroundImage: `url(${textureSettings.customTexture.url})`,
+                          backgroundSize: `${100 / Math.min(textureSettings.customTexture.repeat, 8)}% auto`,
+                        }}
+                      />
+                      <button
+                        onClick={handleRemoveCustomTexture}
+                        className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-red-600"
+                      >
+                        ×
+                      </button>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Apply To</label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {[
+                          { part: 'body' as const, label: 'Body' },
+                          { part: 'cuff' as const, label: 'Cuffs' },
+                          { part: 'ribbedHem' as const, label: 'Hem' }
+                        ].map((option) => (
+                          <button
+                            key={option.part}
+                            onClick={() => toggleCustomTexturePart(option.part)}
+                            className={`p-2 rounded-lg border text-sm transition-colors ${textureSettings.customTexture?.parts.includes(option.part)
+                              ? 'border-pink-500 bg-pink-50 text-pink-700'
+                              : 'border-gray-300 hover:border-gray-400'
+                              }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-medium text-gray-700">Repeat</label>
+                        <span className="text-sm text-gray-500">{textureSettings.customTexture.repeat}×</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="1"
+                        max="40"
+                        step="1"
+                        value={textureSettings.customTexture.repeat}
+                        onChange={(e) => updateCustomTexture({ repeat: parseInt(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-medium text-gray-700">Offset X</label>
+                        <span className="text-sm text-gray-500">{textureSettings.customTexture.offsetX.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={textureSettings.customTexture.offsetX}
+                        onChange={(e) => updateCustomTexture({ offsetX: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-medium text-gray-700">Offset Y</label>
+                        <span className="text-sm text-gray-500">{textureSettings.customTexture.offsetY.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={textureSettings.customTexture.offsetY}
+                        onChange={(e) => updateCustomTexture({ offsetY: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-sm font-medium text-gray-700">Rotation</label>
+                        <span className="text-sm text-gray-500">{textureSettings.customTexture.rotation}°</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="360"
+                        value={textureSettings.customTexture.rotation}
+                        onChange={(e) => updateCustomTexture({ rotation: parseInt(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+                  </div>
+                )}
                 <button
                   onClick={handleCreatePattern}
                   className="w-full p-3 bg-green-500 hover:bg-green-600 text-white rounded-lg font-medium transition-colors"
@@ -1117,6 +1613,14 @@ export default function Sidebar({ className = '', colors, onColorChange, backgro
           </div>
         )}
       </div>
+
+      {showPatternCreator && (
+        <PatternCreator
+          className="fixed top-4 bottom-4 left-[21rem] z-50"
+          onPreview={handlePatternCreatorPreview}
+          onClose={() => setShowPatternCreator(false)}
+        />
+      )}
     </div>
   );
 }
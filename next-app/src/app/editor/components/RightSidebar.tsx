@@ -2,6 +2,7 @@
 
 import dynamic from 'next/dynamic';
 import { useEffect, useState } from 'react';
+import { DEFAULT_GARMENT, type GarmentColors, type GarmentDefinition } from '../../lib/garments';
 
 // Dynamically import Scene3D to avoid SSR issues with Three.js
 const Scene3D = dynamic(() => import('../../components/Scene3D'), {
@@ -66,20 +67,15 @@ function ColorPicker({ label, value, onChange }: ColorPickerProps) {
 interface RightSidebarProps {
   className?: string;
   placedImages: PlacedImage[];
-  colors: {
-    body: string;
-    neck: string;
-    neckBorder: string;
-    cuff: string;
-    buttons: string;
-    ribbedHem: string;
-  };
+  garment?: GarmentDefinition;
+  colors: GarmentColors;
   onColorChange: (part: string, color: string) => void;
 }
 
 export default function RightSidebar({
   className = '',
   placedImages,
+  garment = DEFAULT_GARMENT,
   colors,
   onColorChange
 }: RightSidebarProps) {
@@ -132,6 +128,7 @@ export default function RightSidebar({
           <div className="h-full relative bg-gradient-to-br from-gray-100 to-gray-200">
             <Scene3D
               className="absolute inset-0"
+              garment={garment}
               colors={colors}
             />
 
@@ -182,36 +179,14 @@ export default function RightSidebar({
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">T-SHIRT COLORS</h3>
 
-              <ColorPicker
-                label="Body"
-                value={colors.body}
-                onChange={(color) => onColorChange('body', color)}
-              />
-              <ColorPicker
-                label="Neck"
-                value={colors.neck}
-                onChange={(color) => onColorChange('neck', color)}
-              />
-              <ColorPicker
-                label="Neck Border"
-                value={colors.neckBorder}
-                onChange={(color) => onColorChange('neckBorder', color)}
-              />
-              <ColorPicker
-                label="Cuff"
-                value={colors.cuff}
-                onChange={(color) => onColorChange('cuff', color)}
-              />
-              <ColorPicker
-                label="Buttons"
-                value={colors.buttons}
-                onChange={(color) => onColorChange('buttons', color)}
-              />
-              <ColorPicker
-                label="Ribbed Hem"
-                value={colors.ribbedHem}
-                onChange={(color) => onColorChange('ribbedHem', color)}
-              />
+              {garment.parts.map((part) => (
+                <ColorPicker
+                  key={part.id}
+                  label={part.label}
+                  value={colors[part.id] ?? part.defaultColor}
+                  onChange={(color) => onColorChange(part.id, color)}
+                />
+              ))}
             </div>
           </div>
         )}
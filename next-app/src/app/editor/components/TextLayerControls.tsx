@@ -0,0 +1,151 @@
+'use client';
+
+import { TEXT_FONTS, TEXT_WEIGHTS, type TextLayerSettings, type TextWarp } from '../../lib/textLayers';
+
+interface TextLayerControlsProps {
+  text: TextLayerSettings;
+  onChange: (changes: Partial<TextLayerSettings>) => void;
+}
+
+const WARPS: { value: TextWarp; label: string }[] = [
+  { value: 'none', label: 'Straight' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'wave', label: 'Wave' },
+];
+
+export default function TextLayerControls({ text, onChange }: TextLayerControlsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Text</label>
+        <textarea
+          value={text.content}
+          onChange={(e) => onChange({ content: e.target.value })}
+          rows={2}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm resize-none"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Font</label>
+          <select
+            value={text.fontFamily}
+            onChange={(e) => onChange({ fontFamily: e.target.value })}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+            style={{ fontFamily: text.fontFamily }}
+          >
+            {TEXT_FONTS.map((font) => (
+              <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Weight</label>
+          <select
+            value={text.fontWeight}
+            onChange={(e) => onChange({ fontWeight: parseInt(e.target.value) })}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+          >
+            {TEXT_WEIGHTS.map((weight) => (
+              <option key={weight.value} value={weight.value}>{weight.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Size: {text.fontSize}px</label>
+        <input
+          type="range"
+          min="6"
+          max="120"
+          value={text.fontSize}
+          onChange={(e) => onChange({ fontSize: parseInt(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Letter Spacing: {text.letterSpacing}px</label>
+        <input
+          type="range"
+          min="-10"
+          max="40"
+          value={text.letterSpacing}
+          onChange={(e) => onChange({ letterSpacing: parseInt(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Fill</label>
+          <input
+            type="color"
+            value={text.fill}
+            onChange={(e) => onChange({ fill: e.target.value })}
+            className="w-full h-8 rounded border border-gray-300 cursor-pointer"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Outline</label>
+          <input
+            type="color"
+            value={text.outlineColor}
+            onChange={(e) => onChange({ outlineColor: e.target.value })}
+            className="w-full h-8 rounded border border-gray-300 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Outline Width: {text.outlineWidth}px</label>
+        <input
+          type="range"
+          min="0"
+          max="10"
+          step="0.5"
+          value={text.outlineWidth}
+          onChange={(e) => onChange({ outlineWidth: parseFloat(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Warp</label>
+        <div className="grid grid-cols-4 gap-1">
+          {WARPS.map((warp) => (
+            <button
+              key={warp.value}
+              onClick={() => onChange({ warp: warp.value })}
+              className={`px-2 py-1 text-xs rounded border ${text.warp === warp.value
+                ? 'border-pink-500 bg-pink-50 text-pink-700'
+                : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                }`}
+            >
+              {warp.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(text.warp === 'arc' || text.warp === 'wave') && (
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            {text.warp === 'arc' ? 'Bend' : 'Wave Height'}: {text.warpAmount}%
+          </label>
+          <input
+            type="range"
+            min={text.warp === 'arc' ? -100 : 0}
+            max="100"
+            value={text.warpAmount}
+            onChange={(e) => onChange({ warpAmount: parseInt(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import TextLayerControls from './TextLayerControls';
+import { LAYER_BLEND_MODES, type LayerBlendMode, type ZoneLayer } from '../../lib/zoneLayers';
+import { INK_EFFECTS, PRINT_TECHNIQUES, getInkEffect, getPrintTechnique } from '../../lib/printTechniques';
+
+interface ZoneLayersPanelProps {
+  title: string;
+  layers: ZoneLayer[]; // bottom-to-top
+  selectedLayerId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (id: string, changes: Partial<ZoneLayer>) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onRemove: (id: string) => void;
+}
+
+export default function ZoneLayersPanel({
+  title,
+  layers,
+  selectedLayerId,
+  onSelect,
+  onChange,
+  onMove,
+  onRemove,
+}: ZoneLayersPanelProps) {
+  const selectedLayer = layers.find((layer) => layer.id === selectedLayerId) ?? null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800 uppercase">{title} Layers</h3>
+        <span className="text-xs text-gray-500">{layers.length} {layers.length === 1 ? 'layer' : 'layers'}</span>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-xs text-gray-500">Drop designs or add text to build up a print on this zone.</p>
+      ) : (
+        <div className="space-y-1 mb-4">
+          {/* Top of the stack first, like every layers panel */}
+          {[...layers].reverse().map((layer, index) => {
+            const isSelected = layer.id === selectedLayerId;
+            return (
+              <div
+                key={layer.id}
+                onClick={() => onSelect(layer.id)}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer border ${isSelected
+                  ? 'border-pink-500 bg-pink-50'
+                  : 'border-transparent hover:bg-gray-50'
+                  }`}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChange(layer.id, { visible: !layer.visible });
+                  }}
+                  className={`w-6 h-6 text-xs rounded ${layer.visible ? 'text-gray-700' : 'text-gray-300'}`}
+                  title={layer.visible ? 'Hide layer' : 'Show layer'}
+                >
+                  {layer.visible ? '👁' : '–'}
+                </button>
+                {layer.text ? (
+                  <div className="w-8 h-8 flex items-center justify-center bg-gray-100 rounded text-sm font-bold text-gray-700">T</div>
+                ) : (
+                  <img src={layer.src} alt="" className="w-8 h-8 object-contain bg-gray-100 rounded" />
+                )}
+                <span className={`flex-1 text-xs truncate ${layer.visible ? 'text-gray-800' : 'text-gray-400'}`}>
+                  {layer.text ? layer.text.content || layer.name : layer.name}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, 'up');
+                  }}
+                  disabled={index === 0}
+                  className="w-6 h-6 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  title="Bring forward"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMove(layer.id, 'down');
+                  }}
+                  disabled={index === layers.length - 1}
+                  className="w-6 h-6 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  title="Send backward"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove(layer.id);
+                  }}
+                  className="w-6 h-6 text-xs text-red-500 hover:text-red-700"
+                  title="Delete layer"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedLayer && (
+        <div className="space-y-3 border-t border-gray-100 pt-3">
+          {selectedLayer.text && (
+            <TextLayerControls
+              text={selectedLayer.text}
+              onChange={(changes) => onChange(selectedLayer.id, { text: { ...selectedLayer.text!, ...changes } })}
+            />
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Opacity: {Math.round(selectedLayer.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(selectedLayer.opacity * 100)}
+              onChange={(e) => onChange(selectedLayer.id, { opacity: parseInt(e.target.value) / 100 })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Blend Mode</label>
+            <select
+              value={selectedLayer.blendMode}
+              onChange={(e) => onChange(selectedLayer.id, { blendMode: e.target.value as LayerBlendMode })}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+            >
+              {LAYER_BLEND_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Print Technique</label>
+            <div className="grid grid-cols-2 gap-1">
+              {PRINT_TECHNIQUES.map((technique) => (
+                <button
+                  key={technique.value}
+                  onClick={() => onChange(selectedLayer.id, { technique: technique.value })}
+                  className={`px-2 py-1 rounded border text-xs transition-colors ${selectedLayer.technique === technique.value
+                    ? 'border-pink-500 bg-pink-50 text-pink-700'
+                    : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                    }`}
+                >
+                  {technique.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{getPrintTechnique(selectedLayer.technique).description}</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Ink Effect</label>
+            <div className="grid grid-cols-3 gap-1">
+              {INK_EFFECTS.map((effect) => (
+                <button
+                  key={effect.value}
+                  onClick={() => onChange(selectedLayer.id, { inkEffect: effect.value })}
+                  className={`px-2 py-1 rounded border text-xs transition-colors ${selectedLayer.inkEffect === effect.value
+                    ? 'border-pink-500 bg-pink-50 text-pink-700'
+                    : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                    }`}
+                >
+                  {effect.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{getInkEffect(selectedLayer.inkEffect).description}</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Scale: {Math.round(selectedLayer.scale)}%
+            </label>
+            <input
+              type="range"
+              min="10"
+              max="200"
+              value={selectedLayer.scale}
+              onChange={(e) => onChange(selectedLayer.id, { scale: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Rotation: {Math.round(selectedLayer.rotation)}°
+            </label>
+            <input
+              type="range"
+              min="-180"
+              max="180"
+              value={selectedLayer.rotation}
+              onChange={(e) => onChange(selectedLayer.id, { rotation: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <button
+            onClick={() => onChange(selectedLayer.id, { x: 0, y: 0 })}
+            className="w-full px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+          >
+            Center Layer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
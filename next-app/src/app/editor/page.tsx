@@ -2,6 +2,15 @@
 
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import dynamic from 'next/dynamic';
+import ZoneLayersPanel from './components/ZoneLayersPanel';
+import { createTextLayer, createZoneLayer, drawZoneLayers, findLayerAt, flattenZoneLayers, loadLayerImage, loadZoneLayerImages, type ZoneLayer } from '../lib/zoneLayers';
+import { cropSvg, isSvgFile, svgToDataUrl } from '../lib/vectorArtwork';
+import GarmentPicker from '../components/GarmentPicker';
+import { DEFAULT_GARMENT, fillColors, loadSelectedGarment, storeSelectedGarment, type GarmentDefinition, type PrintZoneId } from '../lib/garments';
+import { composeSurfaceAtlas, composeUvAtlas, type UVTextureData } from '../lib/uvAtlas';
+import { flattenZoneSurface, type PrintSurfaceMaps } from '../lib/printTechniques';
+import { DEFAULT_ZONE_INK, flattenInkPreview, flattenUnderbase, hasUnderbase, isDarkGarment, type ZoneInkSettings } from '../lib/underbase';
+import type { ModelReport } from '../lib/modelDiagnostics';
 // Dynamically import Scene3D to avoid SSR issues with Three.js
 const Scene3D = dynamic(() => import('../components/Scene3D'), {
   ssr: false,
@@ -26,7 +35,7 @@ interface CropTransform {
   cropBottom: number;
 }
 
-type ContainerType = 'front' | 'back' | 'leftSleeve' | 'rightSleeve';
+type ContainerType = PrintZoneId;
 
 
 async function loadImage(src: string): Promise<HTMLImageElement> {
@@ -39,142 +48,178 @@ async function loadImage(src: string): Promise<HTMLImageElement> {
   });
 }
 
-async function applyMask(imageUrl: string, maskUrl: string, cropValues?: { cropLeft: number; cropRight: number; cropTop: number; cropBottom: number }): Promise<string> {
-  try {
-    const [img, mask] = await Promise.all([loadImage(imageUrl), loadImage(maskUrl)]);
-    
-
-    const size = 1024;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d')!;
-
-
-   
-    if (cropValues && (cropValues.cropLeft || cropValues.cropRight || cropValues.cropTop || cropValues.cropBottom)) {
-      const cropCanvas = document.createElement('canvas');
-      cropCanvas.width = img.width;
-      cropCanvas.height = img.height;
-      const cropCtx = cropCanvas.getContext('2d')!;
-
-     
-      const cropX = Math.round((cropValues.cropLeft / 100) * img.width);
-      const cropY = Math.round((cropValues.cropTop / 100) * img.height);
-      const cropWidth = Math.round(img.width - (cropValues.cropLeft / 100) * img.width - (cropValues.cropRight / 100) * img.width);
-      const cropHeight = Math.round(img.height - (cropValues.cropTop / 100) * img.height - (cropValues.cropBottom / 100) * img.height);
-
-      
-      cropCtx.drawImage(img, cropX, cropY, cropWidth, cropHeight, 0, 0, img.width, img.height);
-
-    
-      ctx.drawImage(cropCanvas, 0, 0, size, size);
-    } else {
-     
-      ctx.drawImage(img, 0, 0, size, size);
-    }
+// Bake the crop into the design. The zone outline on the garment is handled by the
+// decal projection in Scene3D, so the design itself is never masked.
+async function cropImage(imageUrl: string, cropValues?: { cropLeft: number; cropRight: number; cropTop: number; cropBottom: number }): Promise<string> {
+  if (!cropValues || !(cropValues.cropLeft || cropValues.cropRight || cropValues.cropTop || cropValues.cropBottom)) {
+    return imageUrl;
+  }
 
-   
-    ctx.globalCompositeOperation = 'destination-in';
-    ctx.drawImage(mask, 0, 0, size, size);
+  const img = await loadImage(imageUrl);
+  const cropX = Math.round((cropValues.cropLeft / 100) * img.width);
+  const cropY = Math.round((cropValues.cropTop / 100) * img.height);
+  const cropWidth = Math.max(1, Math.round(img.width - (cropValues.cropLeft / 100) * img.width - (cropValues.cropRight / 100) * img.width));
+  const cropHeight = Math.max(1, Math.round(img.height - (cropValues.cropTop / 100) * img.height - (cropValues.cropBottom / 100) * img.height));
 
-    return canvas.toDataURL('image/png');
-  } catch (error) {
-    console.warn('❌ Zone masking failed, using original image:', error);
-    return imageUrl; 
-  }
+  const canvas = document.createElement('canvas');
+  canvas.width = cropWidth;
+  canvas.height = cropHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+  return canvas.toDataURL('image/png');
 }
 
-const maskByZone = {
-  front: '/masks/front.png',
-  back: '/masks/back.png',
-  leftSleeve: '/masks/leftSleeve.png',
-  rightSleeve: '/masks/rightSleeve.png',
+// On-screen size of each print zone container. Container transforms are in these
+// pixels, and the 3D decal placement is expressed as a fraction of them.
+const ZONE_SIZES: Record<ContainerType, { width: number; height: number }> = {
+  front: { width: 224, height: 144 },
+  back: { width: 224, height: 144 },
+  leftSleeve: { width: 160, height: 112 },
+  rightSleeve: { width: 160, height: 112 },
 };
 
+const ZONE_TITLES = Object.fromEntries(
+  DEFAULT_GARMENT.printZones.map(zone => [zone.id, zone.label])
+) as Record<ContainerType, string>;
+
+// Physical print width of each zone; print files are rendered at PRINT_DPI
+const ZONE_PRINT_WIDTH_INCHES: Record<ContainerType, number> = {
+  front: 12,
+  back: 12,
+  leftSleeve: 4,
+  rightSleeve: 4,
+};
+const PRINT_DPI = 300;
+const HI_RES_EXPORT_WIDTH = 4096;
+
+// Copy of a per-zone record with one zone replaced, or dropped when it has nothing
+function withZone<T>(record: Partial<Record<ContainerType, T>>, zone: ContainerType, value: T | null) {
+  const next = { ...record };
+  if (value) next[zone] = value;
+  else delete next[zone];
+  return next;
+}
+
+// Same layers in the same order. Updates replace only the layers they touch, so a stack
+// filtered the same way twice compares equal while those layers are untouched.
+function sameStack(a: ZoneLayer[], b: ZoneLayer[]) {
+  return a.length === b.length && a.every((layer, i) => layer === b[i]);
+}
+
+// What a zone's flattened texture was (or is being) made from
+interface FlattenJob {
+  layers: ZoneLayer[];
+  ink: ZoneInkSettings;
+  bodyColor: string;
+  dragged?: string; // layer left out while the 3D view shows it on its own
+  timer?: number; // pending until the zone's edits settle
+  done?: boolean;
+}
+
+// A layer being dragged, in the 2D container or on the model. The 3D view shows it as its
+// own decal that slides with the pointer over the zone flattened without it, so moving it
+// re-projects one decal instead of re-flattening the zone; once it's let go the zone is
+// flattened whole again and the preview goes when that texture is in.
+interface LayerDrag {
+  zone: ContainerType;
+  id: string;
+  origin: { x: number; y: number }; // where the layer was when the preview was drawn
+  preview: string | null; // the layer flattened alone, null until ready
+  released: boolean;
+}
+
+// Quiet time after the last edit to a zone before its stack is flattened again, ms
+const FLATTEN_DELAY = 150;
+
+// Decal placement for a flattened zone texture: centred and as wide as the zone
+const FULL_ZONE_TRANSFORM = { position: { x: 0, y: 0 }, scale: 100, rotation: 0 };
+
 // Container Image Control Component Props
 interface ContainerImageControlProps {
   container: ContainerType;
-  image: string;
-  transforms: {
-    x: number;
-    y: number;
-    scale: number;
-    rotation: number;
-    cropLeft: number;
-    cropRight: number;
-    cropTop: number;
-    cropBottom: number;
-  };
-  onTransform: (newTransforms: any) => void;
+  layers: ZoneLayer[];
+  selectedLayerId: string | null;
+  width: number;
+  height: number;
+  onMoveLayer: (id: string, x: number, y: number) => void;
+  onLayerDragStart: (layer: ZoneLayer) => void;
+  onLayerDragEnd: () => void;
   onRemove: () => void;
 }
 
 // Container Image Control Component
 function ContainerImageControl({
   container,
-  image,
-  transforms,
-  onTransform,
+  layers,
+  selectedLayerId,
+  width,
+  height,
+  onMoveLayer,
+  onLayerDragStart,
+  onLayerDragEnd,
   onRemove,
 }: ContainerImageControlProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ layer: ZoneLayer; startX: number; startY: number; moved: boolean } | null>(null);
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !image) return;
+    if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const img = new Image();
-    img.onload = () => {
-     
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-     
-      ctx.save();
-
-      
-      ctx.translate(transforms.x + canvas.width / 2, transforms.y + canvas.height / 2);
-      ctx.scale(transforms.scale / 100, transforms.scale / 100);
-      ctx.rotate((transforms.rotation * Math.PI) / 180);
-
-     
-      const cropX = (transforms.cropLeft / 100) * img.width;
-      const cropY = (transforms.cropTop / 100) * img.height;
-      const cropWidth = img.width - (transforms.cropLeft / 100) * img.width - (transforms.cropRight / 100) * img.width;
-      const cropHeight = img.height - (transforms.cropTop / 100) * img.height - (transforms.cropBottom / 100) * img.height;
-
-      
-      ctx.drawImage(img, cropX, cropY, cropWidth, cropHeight, -cropWidth / 2, -cropHeight / 2, cropWidth, cropHeight);
-
-     
-      ctx.restore();
-
-     
-      const base64 = canvas.toDataURL('image/png');
-      console.log('Canvas exported Base64:', base64);
+    // Same composite the 3D zone texture is flattened from
+    let cancelled = false;
+    loadZoneLayerImages(layers, canvas.width).then((images) => {
+      if (!cancelled) drawZoneLayers(ctx, layers, images, width);
+    });
+    return () => {
+      cancelled = true;
     };
-    img.src = image;
-  }, [image, transforms]);
+  }, [layers, width]);
 
   return (
     <div className="relative w-full h-full group">
-      {/* Container Canvas */}
+      {/* Container Canvas - drawn at 2x for a crisp preview */}
       <canvas
         ref={canvasRef}
-        width={300}
-        height={300}
+        width={width * 2}
+        height={height * 2}
         className="w-full h-full object-contain cursor-move"
         style={{
           maxWidth: '100%',
           maxHeight: '100%',
         }}
         draggable={false}
+        onPointerDown={(e) => {
+          if (!selectedLayer) return;
+          e.stopPropagation();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { layer: selectedLayer, startX: e.clientX, startY: e.clientY, moved: false };
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          // A click that never moves leaves the zone texture alone
+          if (!drag.moved) {
+            drag.moved = true;
+            onLayerDragStart(drag.layer);
+          }
+          onMoveLayer(drag.layer.id, drag.layer.x + e.clientX - drag.startX, drag.layer.y + e.clientY - drag.startY);
+        }}
+        onPointerUp={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          e.currentTarget.releasePointerCapture(e.pointerId);
+          dragRef.current = null;
+          if (drag.moved) onLayerDragEnd();
+        }}
       />
 
-      {/* Remove Button */}
+      {/* Remove Button - deletes the selected layer */}
       <button
         onClick={(e) => {
           e.stopPropagation();
@@ -186,14 +231,16 @@ function ContainerImageControl({
       </button>
 
       {/* Transform Controls - Only show when this container is active */}
-      <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity z-40">
-        <div className="bg-white/95 backdrop-blur-sm rounded px-2 py-1 shadow-lg border border-gray-200">
-          <div className="flex items-center gap-2 text-xs">
-            <span className="text-gray-600">Scale:</span>
-            <span className="font-bold text-blue-600">{transforms.scale}%</span>
+      {selectedLayer && (
+        <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity z-40">
+          <div className="bg-white/95 backdrop-blur-sm rounded px-2 py-1 shadow-lg border border-gray-200">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-gray-600">{selectedLayer.name}:</span>
+              <span className="font-bold text-blue-600">{selectedLayer.scale}%</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -205,34 +252,21 @@ interface InteractiveContainerProps {
   width: number;
   height: number;
   className?: string;
-  containerImages: Record<ContainerType, string | null>;
-  containerTransforms: Record<ContainerType, {
-    x: number;
-    y: number;
-    scale: number;
-    rotation: number;
-    cropLeft: number;
-    cropRight: number;
-    cropTop: number;
-    cropBottom: number;
-  }>;
+  containerLayers: Record<ContainerType, ZoneLayer[]>;
+  selectedLayers: Record<ContainerType, string | null>;
   dragOverStates: Record<ContainerType, boolean>;
-  setContainerImages: React.Dispatch<React.SetStateAction<Record<ContainerType, string | null>>>;
-  setContainerTransforms: React.Dispatch<React.SetStateAction<Record<ContainerType, {
-    x: number;
-    y: number;
-    scale: number;
-    rotation: number;
-    cropLeft: number;
-    cropRight: number;
-    cropTop: number;
-    cropBottom: number;
-  }>>>;
+  setContainerLayers: React.Dispatch<React.SetStateAction<Record<ContainerType, ZoneLayer[]>>>;
+  setSelectedLayers: React.Dispatch<React.SetStateAction<Record<ContainerType, string | null>>>;
+  isSelected: boolean;
+  onSelectZone: (zone: ContainerType) => void;
   setDragOverStates: React.Dispatch<React.SetStateAction<Record<ContainerType, boolean>>>;
   activeContainer: ContainerType | null;
   setActiveContainer: React.Dispatch<React.SetStateAction<ContainerType | null>>;
   currentImage: string | null;
-  setCurrentImage: React.Dispatch<React.SetStateAction<string | null>>;
+  currentSvg: string | null;
+  clearCurrentImage: () => void;
+  onLayerDragStart: (zone: ContainerType, layer: ZoneLayer) => void;
+  onLayerDragEnd: () => void;
   imageTransforms: {
     x: number;
     y: number;
@@ -263,26 +297,34 @@ function InteractiveContainer({
   width,
   height,
   className = "",
-  containerImages,
-  containerTransforms,
+  containerLayers,
+  selectedLayers,
   dragOverStates,
-  setContainerImages,
-  setContainerTransforms,
+  setContainerLayers,
+  setSelectedLayers,
+  isSelected,
+  onSelectZone,
   setDragOverStates,
   activeContainer,
   setActiveContainer,
   currentImage,
-  setCurrentImage,
+  currentSvg,
+  clearCurrentImage,
+  onLayerDragStart,
+  onLayerDragEnd,
   imageTransforms,
   setPreviewState,
 }: InteractiveContainerProps) {
-  const containerImage = containerImages[type];
-  const containerTransform = containerTransforms[type];
+  const layers = containerLayers[type];
+  const selectedLayerId = selectedLayers[type];
   const isDragOver = dragOverStates[type];
-  const isActive = containerImage !== null;
+  const isActive = layers.length > 0;
 
   return (
-    <div className={`bg-white rounded-lg shadow-md border-2 border-gray-200 transition-all duration-200 hover:shadow-lg ${className}`}>
+    <div
+      className={`bg-white rounded-lg shadow-md border-2 transition-all duration-200 hover:shadow-lg ${isSelected ? 'border-pink-500' : 'border-gray-200'} ${className}`}
+      onClick={() => onSelectZone(type)}
+    >
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-50 to-indigo-50 px-3 py-2 border-b border-gray-200">
         <div className="flex items-center justify-between">
@@ -290,7 +332,7 @@ function InteractiveContainer({
           {isActive && (
             <div className="flex items-center gap-1">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-xs text-green-600 font-medium">Active</span>
+              <span className="text-xs text-green-600 font-medium">{layers.length} {layers.length === 1 ? 'layer' : 'layers'}</span>
             </div>
           )}
         </div>
@@ -376,56 +418,35 @@ function InteractiveContainer({
               return;
             }
 
-            console.log('🔥 BEFORE setContainerImages:', containerImages);
-
-            // 🔥 FIX: Use 'type' instead of 'activeContainer'
-            applyMask(currentImage, maskByZone[type], imageTransforms).then((maskedImage: string) => {
-              // Place masked image in the container (Mockey.ai style)
-              setContainerImages(prev => {
-                const next = { ...prev, [type]: maskedImage };  // Use 'type' not 'activeContainer'
-                console.log('🔥 AFTER setContainerImages (with mask):', next);
-                return next;
-              });
-
-              // Copy current image transforms to the container
-              setContainerTransforms(prev => {
-                const newState = {
-                  ...prev,
-                  [type]: {  // Use 'type' not 'activeContainer'
-                    ...prev[type],
-                    ...imageTransforms
-                  }
-                };
-                console.log('🔥 AFTER setContainerTransforms:', newState);
-                return newState;
-              });
-
-              console.log('🔥 Placed masked image on', type);  // Use 'type'
-            }).catch(error => {
-              console.warn('Masking failed, using original image:', error);
-
-              // Place original image if masking fails
-              setContainerImages(prev => {
-                const next = { ...prev, [type]: currentImage };  // Use 'type'
-                console.log('🔥 AFTER setContainerImages (original):', next);
-                return next;
-              });
+            // Stack the design on top of whatever is already in the zone
+            const placeLayer = (src: string, svg?: string) => {
+              const layer = {
+                ...createZoneLayer(src, `Design ${layers.length + 1}`, {
+                  x: imageTransforms.x,
+                  y: imageTransforms.y,
+                  scale: imageTransforms.scale,
+                  rotation: imageTransforms.rotation,
+                }),
+                ...(svg && { svg }),
+              };
+              setContainerLayers(prev => ({ ...prev, [type]: [...prev[type], layer] }));
+              setSelectedLayers(prev => ({ ...prev, [type]: layer.id }));
+              onSelectZone(type);
+            };
 
-              setContainerTransforms(prev => {
-                const newState = {
-                  ...prev,
-                  [type]: {  // Use 'type'
-                    ...prev[type],
-                    ...imageTransforms
-                  }
-                };
-                console.log('🔥 AFTER setContainerTransforms (original):', newState);
-                return newState;
+            // Vector art is cropped through its viewBox and stays vector in the layer
+            if (currentSvg) {
+              const croppedSvg = cropSvg(currentSvg, imageTransforms);
+              placeLayer(svgToDataUrl(croppedSvg), croppedSvg);
+            } else {
+              cropImage(currentImage, imageTransforms).then(src => placeLayer(src)).catch(error => {
+                console.warn('Cropping failed, using original image:', error);
+                placeLayer(currentImage);
               });
-            });
+            }
 
             // Clear the global image after placing
-            setCurrentImage(null);
+            clearCurrentImage();
 
             // Clear preview state after placing
             setPreviewState({
@@ -436,22 +457,26 @@ function InteractiveContainer({
             });
           }}
         >
-          {containerImage ? (
+          {isActive ? (
             <ContainerImageControl
               container={type}
-              image={containerImage}
-              transforms={containerTransform}
-              onTransform={(newTransforms) => {
-                setContainerTransforms(prev => ({
+              layers={layers}
+              selectedLayerId={selectedLayerId}
+              width={width}
+              height={height}
+              onMoveLayer={(id, x, y) => {
+                setContainerLayers(prev => ({
                   ...prev,
-                  [type]: newTransforms
+                  [type]: prev[type].map(layer => layer.id === id ? { ...layer, x, y } : layer)
                 }));
               }}
+              onLayerDragStart={(layer) => onLayerDragStart(type, layer)}
+              onLayerDragEnd={onLayerDragEnd}
               onRemove={() => {
-                setContainerImages(prev => ({
-                  ...prev,
-                  [type]: null
-                }));
+                const removeId = selectedLayerId ?? layers[layers.length - 1].id;
+                const remaining = layers.filter(layer => layer.id !== removeId);
+                setContainerLayers(prev => ({ ...prev, [type]: remaining }));
+                setSelectedLayers(prev => ({ ...prev, [type]: remaining.length ? remaining[remaining.length - 1].id : null }));
               }}
             />
           ) : (
@@ -785,35 +810,231 @@ function UnifiedImageControl({
 
 export default function EditorPage() {
   const [tshirtColor, setTshirtColor] = useState('#ffffff');
+  const [garment, setGarment] = useState<GarmentDefinition>(DEFAULT_GARMENT);
+  const garmentColors = useMemo(() => fillColors(garment, tshirtColor), [garment, tshirtColor]);
+  const hasZone = (zone: ContainerType) => garment.printZones.some(printZone => printZone.id === zone);
+
+  // Same base model the mockup page was showing
+  useEffect(() => {
+    setGarment(loadSelectedGarment());
+  }, []);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Multi-image system: each container can have its own image
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [currentImage, setCurrentImage] = useState<string | null>(null);
+  // Markup of the current upload when it is an SVG, so it can be placed as vector art
+  const [currentSvg, setCurrentSvg] = useState<string | null>(null);
+  const svgReadRef = useRef<string | null>(null); // upload whose markup is still wanted
+
+  // The markup belongs to the current upload, so it goes whenever the upload does
+  const clearCurrentImage = () => {
+    svgReadRef.current = null;
+    setCurrentImage(null);
+    setCurrentSvg(null);
+  };
+
+  // Per-container layer stacks (Mockey.ai style), bottom-to-top
+  const [containerLayers, setContainerLayers] = useState<Record<ContainerType, ZoneLayer[]>>({
+    front: [],
+    back: [],
+    leftSleeve: [],
+    rightSleeve: [],
+  });
 
-  // Per-container image and transform state (Mockey.ai style)
-  const [containerImages, setContainerImages] = useState<Record<ContainerType, string | null>>({
+  const [selectedLayers, setSelectedLayers] = useState<Record<ContainerType, string | null>>({
     front: null,
     back: null,
     leftSleeve: null,
     rightSleeve: null,
   });
 
-  const [containerTransforms, setContainerTransforms] = useState<Record<ContainerType, {
-    x: number;
-    y: number;
-    scale: number;
-    rotation: number;
-    cropLeft: number;
-    cropRight: number;
-    cropTop: number;
-    cropBottom: number;
-  }>>({
-    front: { x: 0, y: 0, scale: 60, rotation: 0, cropLeft: 0, cropRight: 0, cropTop: 0, cropBottom: 0 },
-    back: { x: 0, y: 0, scale: 60, rotation: 0, cropLeft: 0, cropRight: 0, cropTop: 0, cropBottom: 0 },
-    leftSleeve: { x: 0, y: 0, scale: 50, rotation: 0, cropLeft: 0, cropRight: 0, cropTop: 0, cropBottom: 0 },
-    rightSleeve: { x: 0, y: 0, scale: 50, rotation: 0, cropLeft: 0, cropRight: 0, cropTop: 0, cropBottom: 0 },
+  // Zone whose stack is shown in the layers panel
+  const [selectedZone, setSelectedZone] = useState<ContainerType>('front');
+
+  // Each stack flattened into the single texture the 3D view projects onto its zone
+  const [zoneTextures, setZoneTextures] = useState<Record<ContainerType, string | null>>({
+    front: null,
+    back: null,
+    leftSleeve: null,
+    rightSleeve: null,
+  });
+
+  // ...and the print technique and ink effect maps that go under it
+  const [zoneSurfaces, setZoneSurfaces] = useState<Partial<Record<ContainerType, PrintSurfaceMaps>>>({});
+
+  // Per-zone ink modelling against the body colour, and whether it prints a white underbase
+  const [zoneInk, setZoneInk] = useState<Record<ContainerType, ZoneInkSettings>>({
+    front: DEFAULT_ZONE_INK,
+    back: DEFAULT_ZONE_INK,
+    leftSleeve: DEFAULT_ZONE_INK,
+    rightSleeve: DEFAULT_ZONE_INK,
   });
+  const bodyColor = garmentColors.body;
+
+  const [layerDrag, setLayerDrag] = useState<LayerDrag | null>(null);
+
+  // Flattening is the heavy part of every edit, so a zone is redone only when its own stack
+  // (or how its ink is shown) changed, and only once edits to it settle. The stack and ink
+  // settings are compared by identity: every update replaces just the zone it touches.
+  const flattenJobsRef = useRef<Partial<Record<ContainerType, FlattenJob>>>({});
+  const surfaceLayersRef = useRef<Partial<Record<ContainerType, ZoneLayer[]>>>({}); // stack each surface was made from
+
+  useEffect(() => {
+    (Object.keys(containerLayers) as ContainerType[]).forEach(zone => {
+      const dragged = layerDrag && layerDrag.zone === zone && layerDrag.preview && !layerDrag.released ? layerDrag.id : undefined;
+      const layers = dragged ? containerLayers[zone].filter(layer => layer.id !== dragged) : containerLayers[zone];
+      const ink = zoneInk[zone];
+      const previous = flattenJobsRef.current[zone];
+      if (previous && sameStack(previous.layers, layers) && previous.ink === ink && (previous.bodyColor === bodyColor || !ink.simulate)) {
+        // Let go without the stack changing: the texture already shows the layer
+        if (previous.done && !previous.dragged && layerDrag?.released && layerDrag.zone === zone) setLayerDrag(null);
+        return;
+      }
+
+      if (previous?.timer !== undefined) window.clearTimeout(previous.timer);
+      const job: FlattenJob = { layers, ink, bodyColor, dragged };
+      flattenJobsRef.current[zone] = job;
+      job.timer = window.setTimeout(() => {
+        job.timer = undefined;
+        const surfaceLayers = surfaceLayersRef.current[zone];
+        Promise.all([
+          ink.simulate
+            ? flattenInkPreview(layers, ZONE_SIZES[zone], bodyColor, ink.underbase)
+            : flattenZoneLayers(layers, ZONE_SIZES[zone]),
+          // The surface maps don't depend on the ink settings
+          !surfaceLayers || !sameStack(surfaceLayers, layers) ? flattenZoneSurface(layers, ZONE_SIZES[zone]) : undefined,
+        ]).then(([texture, surface]) => {
+          if (flattenJobsRef.current[zone] !== job) return; // a newer edit is on its way
+          job.done = true;
+          setZoneTextures(prev => ({ ...prev, [zone]: texture }));
+          if (!dragged) setLayerDrag(prev => prev?.released && prev.zone === zone ? null : prev);
+          if (surface === undefined) return;
+          surfaceLayersRef.current[zone] = layers;
+          setZoneSurfaces(prev => withZone(prev, zone, surface));
+        }).catch(error => {
+          if (flattenJobsRef.current[zone] !== job) return;
+          // Keep the last good texture, and don't leave a drag preview standing in for it
+          console.error('❌ Could not flatten zone', zone, error);
+          job.done = true;
+          setLayerDrag(prev => prev?.zone === zone ? null : prev);
+        });
+      }, FLATTEN_DELAY);
+    });
+  }, [containerLayers, zoneInk, bodyColor, layerDrag]);
+
+  // The preview is drawn once, as the layer sits when the drag starts
+  const beginLayerDrag = useCallback((zone: ContainerType, layer: ZoneLayer) => {
+    const drag: LayerDrag = { zone, id: layer.id, origin: { x: layer.x, y: layer.y }, preview: null, released: false };
+    setLayerDrag(drag);
+    flattenZoneLayers([layer], ZONE_SIZES[zone]).then(preview => {
+      setLayerDrag(prev => prev === drag ? { ...drag, preview } : prev); // not once released or restarted
+    }).catch(error => {
+      // Without a preview the zone texture keeps the layer and follows the drag as it settles
+      console.error('❌ Could not draw the drag preview for', layer.name, error);
+      setLayerDrag(prev => prev === drag ? null : prev);
+    });
+  }, []);
+
+  const endLayerDrag = useCallback(() => {
+    setLayerDrag(prev => prev && { ...prev, released: true });
+  }, []);
+
+  // Where the dragged layer's preview sits now, in fractions of the zone print
+  const dragPreviews = useMemo(() => {
+    const layer = layerDrag?.preview && containerLayers[layerDrag.zone].find(zoneLayer => zoneLayer.id === layerDrag.id);
+    if (!layerDrag?.preview || !layer) return undefined;
+    const size = ZONE_SIZES[layerDrag.zone];
+    return {
+      [layerDrag.zone]: {
+        url: layerDrag.preview,
+        offset: { x: (layer.x - layerDrag.origin.x) / size.width, y: -(layer.y - layerDrag.origin.y) / size.height },
+      },
+    };
+  }, [layerDrag, containerLayers]);
+
+  useEffect(() => {
+    const jobs = flattenJobsRef.current;
+    return () => {
+      Object.values(jobs).forEach(job => window.clearTimeout(job.timer));
+    };
+  }, []);
+
+  // Projection: decals wrap each zone design over the surface, while the UV-atlas path lays
+  // it into the mesh's UV layout so the model shows exactly what the 2D zone shows
+  const [projection, setProjection] = useState<'decal' | 'uv'>('decal');
+  const [glowPreview, setGlowPreview] = useState(false);
+  const hasGlowInk = Object.values(containerLayers).some(layers => layers.some(layer => layer.visible && layer.inkEffect === 'glow'));
+  const [modelReport, setModelReport] = useState<ModelReport | null>(null);
+  const [uvTextures, setUvTextures] = useState<Partial<Record<ContainerType, UVTextureData>>>({});
+
+  // Atlases are recomposed per zone too, only for the zones whose design, surface or mesh changed
+  const atlasJobsRef = useRef<Partial<Record<ContainerType, { mesh?: ModelReport['meshes'][number]['mesh']; design: string | null; surface?: PrintSurfaceMaps }>>>({});
+
+  useEffect(() => {
+    if (projection !== 'uv' || !modelReport) {
+      atlasJobsRef.current = {};
+      setUvTextures({});
+      return;
+    }
+    const setAtlas = (zone: ContainerType, atlas: UVTextureData | null) => {
+      setUvTextures(prev => withZone(prev, zone, atlas));
+    };
+
+    (Object.keys(zoneTextures) as ContainerType[]).forEach((zoneId) => {
+      const zone = garment.printZones.find(printZone => printZone.id === zoneId);
+      const mesh = modelReport.meshes.find(report => report.zoneId === zoneId)?.mesh;
+      const design = zoneTextures[zoneId];
+      const surface = zoneSurfaces[zoneId];
+      const previous = atlasJobsRef.current[zoneId];
+      if (previous && previous.mesh === mesh && previous.design === design && previous.surface === surface) return;
+
+      const job = { mesh, design, surface };
+      atlasJobsRef.current[zoneId] = job;
+      if (!zone || !mesh || !design) {
+        setAtlas(zoneId, null);
+        return;
+      }
+      Promise.all([
+        composeUvAtlas(zone, mesh, design),
+        surface ? composeSurfaceAtlas(zone, mesh, surface) : null,
+      ]).then(([atlas, surfaceAtlas]) => {
+        if (atlasJobsRef.current[zoneId] !== job) return;
+        setAtlas(zoneId, atlas && { ...atlas, surface: surfaceAtlas ?? undefined });
+      }).catch(error => {
+        if (atlasJobsRef.current[zoneId] !== job) return;
+        // The zone falls back to the projected design rather than an atlas of the previous one
+        console.error('❌ Could not lay out the UV atlas for', zoneId, error);
+        setAtlas(zoneId, null);
+      });
+    });
+  }, [projection, modelReport, garment, zoneTextures, zoneSurfaces]);
+
+  const updateLayer = useCallback((zone: ContainerType, id: string, changes: Partial<ZoneLayer>) => {
+    setContainerLayers(prev => ({
+      ...prev,
+      [zone]: prev[zone].map(layer => layer.id === id ? { ...layer, ...changes } : layer)
+    }));
+  }, []);
+
+  const moveLayer = (zone: ContainerType, id: string, direction: 'up' | 'down') => {
+    setContainerLayers(prev => {
+      const layers = [...prev[zone]];
+      const index = layers.findIndex(layer => layer.id === id);
+      const target = direction === 'up' ? index + 1 : index - 1;
+      if (index < 0 || target < 0 || target >= layers.length) return prev;
+      [layers[index], layers[target]] = [layers[target], layers[index]];
+      return { ...prev, [zone]: layers };
+    });
+  };
+
+  const removeLayer = (zone: ContainerType, id: string) => {
+    const remaining = containerLayers[zone].filter(layer => layer.id !== id);
+    setContainerLayers(prev => ({ ...prev, [zone]: remaining }));
+    if (selectedLayers[zone] === id) {
+      setSelectedLayers(prev => ({ ...prev, [zone]: remaining.length ? remaining[remaining.length - 1].id : null }));
+    }
+  };
 
   // Drag over state for visual feedback
   const [dragOverStates, setDragOverStates] = useState<Record<ContainerType, boolean>>({
@@ -865,6 +1086,51 @@ export default function EditorPage() {
     cropBottom: 0,
   });
 
+  // Picking on the 3D model hit-tests the layers' own pixels. Each layer's image (the
+  // thumbnail for vector art) is decoded once and kept here, so the test can run on every
+  // pointer move.
+  const pickImagesRef = useRef(new Map<string, HTMLImageElement>());
+
+  useEffect(() => {
+    Object.values(containerLayers).flat().forEach(layer => {
+      if (layer.text || pickImagesRef.current.has(layer.src)) return;
+      loadLayerImage(layer.src)
+        .then(image => pickImagesRef.current.set(layer.src, image))
+        .catch(() => {}); // not pickable, same as in the flattened stack
+    });
+  }, [containerLayers]);
+
+  const findDesign = useCallback((zone: ContainerType, point: { x: number; y: number }) => {
+    const layers = containerLayers[zone];
+    const images = new Map<string, HTMLImageElement>();
+    layers.forEach(layer => {
+      const image = pickImagesRef.current.get(layer.src);
+      if (image) images.set(layer.id, image);
+    });
+    const size = ZONE_SIZES[zone];
+    return findLayerAt(layers, images, size, { x: point.x * size.width, y: -point.y * size.height })?.id ?? null;
+  }, [containerLayers]);
+
+  // Dragging on the 3D model moves the layer that was grabbed and selects it. The move
+  // comes as fractions of the flattened zone print, which has the container's aspect, so
+  // it converts straight to container pixels and the 2D container follows along.
+  const handleDesignMove = useCallback((zone: ContainerType, id: string, delta: { x: number; y: number }) => {
+    setSelectedZone(zone);
+    setSelectedLayers(prev => prev[zone] === id ? prev : { ...prev, [zone]: id });
+    setContainerLayers(prev => ({
+      ...prev,
+      [zone]: prev[zone].map(layer => layer.id === id
+        ? { ...layer, x: layer.x + delta.x * ZONE_SIZES[zone].width, y: layer.y - delta.y * ZONE_SIZES[zone].height }
+        : layer)
+    }));
+  }, []);
+
+  const handleDesignDrag = useCallback((drag: { zone: ContainerType; design: string } | null) => {
+    const layer = drag && containerLayers[drag.zone].find(zoneLayer => zoneLayer.id === drag.design);
+    if (drag && layer) beginLayerDrag(drag.zone, layer);
+    else endLayerDrag();
+  }, [containerLayers, beginLayerDrag, endLayerDrag]);
+
   // Context menu handler
   const handleContextMenu = (x: number, y: number) => {
     setContextMenu({ visible: true, x, y });
@@ -874,11 +1140,78 @@ export default function EditorPage() {
     fileInputRef.current?.click();
   };
 
+  // Exports re-render the stack at their own resolution, so vector and text layers stay sharp
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Render a file and hand it to the browser. A layer that won't load, or a print-size
+  // canvas bigger than the browser will draw (it then exports as an empty 'data:,'),
+  // is reported under the export buttons.
+  const downloadExport = async (render: () => Promise<string | null>, filename: string) => {
+    setExportError(null);
+    try {
+      const dataUrl = await render();
+      if (!dataUrl) return;
+      if (dataUrl === 'data:,') throw new Error('Canvas too large to export');
+
+      const link = document.createElement('a');
+      link.href = dataUrl;
+      link.download = filename;
+      link.click();
+    } catch (error) {
+      console.error('❌ Export failed:', error);
+      setExportError('Export failed. Check that every layer still loads, or try the smaller Hi-Res PNG.');
+    }
+  };
+
+  const handleExportZone = (kind: 'hiRes' | 'print') => {
+    const width = kind === 'print' ? ZONE_PRINT_WIDTH_INCHES[selectedZone] * PRINT_DPI : HI_RES_EXPORT_WIDTH;
+    return downloadExport(
+      () => flattenZoneLayers(containerLayers[selectedZone], ZONE_SIZES[selectedZone], width),
+      kind === 'print' ? `${selectedZone}-print-${PRINT_DPI}dpi.png` : `${selectedZone}-${width}px.png`
+    );
+  };
+
+  // The white underbase as its own separation, the same size as the print file
+  const handleExportUnderbase = () => downloadExport(
+    () => flattenUnderbase(containerLayers[selectedZone], ZONE_SIZES[selectedZone], ZONE_PRINT_WIDTH_INCHES[selectedZone] * PRINT_DPI),
+    `${selectedZone}-underbase-${PRINT_DPI}dpi.png`
+  );
+
+  const updateZoneInk = (changes: Partial<ZoneInkSettings>) => {
+    setZoneInk(prev => ({ ...prev, [selectedZone]: { ...prev[selectedZone], ...changes } }));
+  };
+
+  const handleGarmentChange = (next: GarmentDefinition) => {
+    setGarment(next);
+    storeSelectedGarment(next);
+    // Layers on zones the new garment doesn't have are kept, just not shown
+    if (!next.printZones.some(zone => zone.id === selectedZone)) {
+      setSelectedZone(next.printZones[0].id);
+    }
+  };
+
+  // Text goes straight onto the selected zone as an editable layer
+  const handleAddText = () => {
+    const layer = createTextLayer(`Text ${containerLayers[selectedZone].filter(l => l.text).length + 1}`);
+    setContainerLayers(prev => ({ ...prev, [selectedZone]: [...prev[selectedZone], layer] }));
+    setSelectedLayers(prev => ({ ...prev, [selectedZone]: layer.id }));
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       const url = URL.createObjectURL(file);
       setCurrentImage(url);
+      setCurrentSvg(null);
+      svgReadRef.current = url;
+      if (isSvgFile(file)) {
+        // Markup that arrives after another upload (or after this one was placed) is dropped
+        file.text()
+          .then(markup => {
+            if (svgReadRef.current === url) setCurrentSvg(markup);
+          })
+          .catch(error => console.warn('❌ Could not read SVG markup:', error));
+      }
       // Also add to uploaded images list
       setUploadedImages(prev => [...prev, url]);
 
@@ -919,22 +1252,15 @@ export default function EditorPage() {
     // Update image position immediately for smooth dragging
     setImageTransforms(prev => ({ ...prev, x: newX, y: newY }));
 
-    // Live-update containerTransforms for hovered container (real-time 3D preview)
-    if (hoveredContainer) {
-      setContainerTransforms(prev => ({
-        ...prev,
-        [hoveredContainer]: {
-          ...prev[hoveredContainer],
-          x: newX,
-          y: newY,
-          scale: imageTransforms.scale,
-          rotation: imageTransforms.rotation,
-          cropLeft: imageTransforms.cropLeft,
-          cropRight: imageTransforms.cropRight,
-          cropTop: imageTransforms.cropTop,
-          cropBottom: imageTransforms.cropBottom,
-        }
-      }));
+    // Live-update the selected layer of the hovered container (real-time 3D preview)
+    const hoveredLayer = hoveredContainer && containerLayers[hoveredContainer].find(layer => layer.id === selectedLayers[hoveredContainer]);
+    if (hoveredContainer && hoveredLayer) {
+      const changes = { x: newX, y: newY, scale: imageTransforms.scale, rotation: imageTransforms.rotation };
+      // The 3D preview of the layer starts from its first position under the pointer
+      if (layerDrag?.zone !== hoveredContainer || layerDrag.id !== hoveredLayer.id || layerDrag.released) {
+        beginLayerDrag(hoveredContainer, { ...hoveredLayer, ...changes });
+      }
+      updateLayer(hoveredContainer, hoveredLayer.id, changes);
     }
 
     // Update real-time preview
@@ -942,10 +1268,11 @@ export default function EditorPage() {
       ...prev,
       previewTransforms: { ...prev.previewTransforms, x: newX, y: newY },
     }));
-  }, [dragging, hoveredContainer, imageTransforms]);
+  }, [dragging, hoveredContainer, containerLayers, imageTransforms, selectedLayers, layerDrag, beginLayerDrag, updateLayer]);
 
   const handleImageMouseUp = () => {
     setDragging(null);
+    endLayerDrag();
 
     // Clear real-time preview
     setPreviewState({
@@ -1217,6 +1544,12 @@ export default function EditorPage() {
         </div>
 
         <div className="p-6 flex-1 overflow-y-auto">
+          {/* Garment Section */}
+          <div className="mb-6">
+            <label className="block text-sm font-semibold text-gray-700 mb-3">Garment</label>
+            <GarmentPicker selected={garment} onSelect={handleGarmentChange} />
+          </div>
+
           {/* Upload Section */}
           <div className="mb-6">
             <label className="block text-sm font-semibold text-gray-700 mb-3">Upload Design</label>
@@ -1239,6 +1572,102 @@ export default function EditorPage() {
             <p className="text-xs text-gray-500 mt-2">Supports: PNG, JPG, SVG</p>
           </div>
 
+          {/* Text Section */}
+          <div className="mb-6">
+            <label className="block text-sm font-semibold text-gray-700 mb-3">Add Text</label>
+            <button
+              onClick={handleAddText}
+              className="w-full py-3 px-4 border-2 border-pink-500 text-pink-600 hover:bg-pink-50 rounded-lg font-medium transition-all duration-200 flex items-center justify-center gap-2"
+            >
+              <span className="text-lg font-bold leading-none">T</span>
+              Add Text to {ZONE_TITLES[selectedZone]}
+            </button>
+            <p className="text-xs text-gray-500 mt-2">Edit font, outline and warp in the layers panel</p>
+          </div>
+
+          {/* Ink on Garment Section */}
+          <div className="mb-6">
+            <label className="block text-sm font-semibold text-gray-700 mb-3">Ink on Garment</label>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Model Ink Opacity</label>
+                  <p className="text-xs text-gray-500">Preview as printed on the body colour</p>
+                </div>
+                <button
+                  onClick={() => updateZoneInk({ simulate: !zoneInk[selectedZone].simulate })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${zoneInk[selectedZone].simulate ? 'bg-pink-500' : 'bg-gray-200'
+                    }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${zoneInk[selectedZone].simulate ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                  />
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">White Underbase</label>
+                  <p className="text-xs text-gray-500">Generated under translucent inks</p>
+                </div>
+                <button
+                  onClick={() => updateZoneInk({ underbase: !zoneInk[selectedZone].underbase })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${zoneInk[selectedZone].underbase ? 'bg-pink-500' : 'bg-gray-200'
+                    }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${zoneInk[selectedZone].underbase ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                  />
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {!zoneInk[selectedZone].simulate
+                ? 'Showing the artwork as it looks on screen'
+                : zoneInk[selectedZone].underbase
+                  ? 'Showing true colour over the white underbase'
+                  : 'Showing muted ink straight on the garment'}
+            </p>
+            {isDarkGarment(bodyColor) && !zoneInk[selectedZone].underbase && hasUnderbase(containerLayers[selectedZone]) && (
+              <p className="text-xs text-amber-600 mt-1">Dark garment: inks on this zone will print dull without an underbase</p>
+            )}
+          </div>
+
+          {/* Export Section */}
+          <div className="mb-6">
+            <label className="block text-sm font-semibold text-gray-700 mb-3">Export {ZONE_TITLES[selectedZone]}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => handleExportZone('hiRes')}
+                disabled={containerLayers[selectedZone].length === 0}
+                className="py-2 px-3 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium disabled:opacity-50"
+              >
+                Hi-Res PNG
+              </button>
+              <button
+                onClick={() => handleExportZone('print')}
+                disabled={containerLayers[selectedZone].length === 0}
+                className="py-2 px-3 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium disabled:opacity-50"
+              >
+                Print File
+              </button>
+              {zoneInk[selectedZone].underbase && (
+                <button
+                  onClick={handleExportUnderbase}
+                  disabled={!hasUnderbase(containerLayers[selectedZone])}
+                  className="col-span-2 py-2 px-3 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium disabled:opacity-50"
+                >
+                  Underbase Separation
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {HI_RES_EXPORT_WIDTH}px wide, or {ZONE_PRINT_WIDTH_INCHES[selectedZone]}&quot; at {PRINT_DPI} DPI for print
+            </p>
+            {exportError && <p className="text-xs text-red-600 mt-2">{exportError}</p>}
+          </div>
+
           {/* Current Image Preview */}
           {currentImage && (
             <div className="mb-6">
@@ -1264,7 +1693,7 @@ export default function EditorPage() {
                   }}
                 />
                 <button
-                  onClick={() => setCurrentImage(null)}
+                  onClick={clearCurrentImage}
                   className="w-full mt-3 py-2 text-sm text-red-600 hover:text-red-700 font-medium"
                 >
                   Remove Design
@@ -1463,86 +1892,114 @@ export default function EditorPage() {
             <div className="relative w-full h-[600px] border-2 border-transparent bg-gray-50/30 rounded-lg">
               {/* Interactive Container Components */}
               <div className="flex justify-center gap-8 mb-8 pt-6">
-                <InteractiveContainer
-                  type="leftSleeve"
-                  title="LEFT SLEEVE"
-                  width={160}
-                  height={112}
-                  className="w-40 h-28"
-                  containerImages={containerImages}
-                  containerTransforms={containerTransforms}
-                  dragOverStates={dragOverStates}
-                  setContainerImages={setContainerImages}
-                  setContainerTransforms={setContainerTransforms}
-                  setDragOverStates={setDragOverStates}
-                  activeContainer={activeContainer}
-                  setActiveContainer={setActiveContainer}
-                  currentImage={currentImage}
-                  setCurrentImage={setCurrentImage}
-                  imageTransforms={imageTransforms}
-                  setPreviewState={setPreviewState}
-                />
-                <InteractiveContainer
-                  type="rightSleeve"
-                  title="RIGHT SLEEVE"
-                  width={160}
-                  height={112}
-                  className="w-40 h-28"
-                  containerImages={containerImages}
-                  containerTransforms={containerTransforms}
-                  dragOverStates={dragOverStates}
-                  setContainerImages={setContainerImages}
-                  setContainerTransforms={setContainerTransforms}
-                  setDragOverStates={setDragOverStates}
-                  activeContainer={activeContainer}
-                  setActiveContainer={setActiveContainer}
-                  currentImage={currentImage}
-                  setCurrentImage={setCurrentImage}
-                  imageTransforms={imageTransforms}
-                  setPreviewState={setPreviewState}
-                />
+                {hasZone('leftSleeve') && (
+                  <InteractiveContainer
+                    type="leftSleeve"
+                    title="LEFT SLEEVE"
+                    width={ZONE_SIZES.leftSleeve.width}
+                    height={ZONE_SIZES.leftSleeve.height}
+                    className="w-40 h-28"
+                    isSelected={selectedZone === 'leftSleeve'}
+                    containerLayers={containerLayers}
+                    selectedLayers={selectedLayers}
+                    dragOverStates={dragOverStates}
+                    setContainerLayers={setContainerLayers}
+                    setSelectedLayers={setSelectedLayers}
+                    onSelectZone={setSelectedZone}
+                    setDragOverStates={setDragOverStates}
+                    activeContainer={activeContainer}
+                    setActiveContainer={setActiveContainer}
+                    currentImage={currentImage}
+                    currentSvg={currentSvg}
+                    clearCurrentImage={clearCurrentImage}
+                    onLayerDragStart={beginLayerDrag}
+                    onLayerDragEnd={endLayerDrag}
+                    imageTransforms={imageTransforms}
+                    setPreviewState={setPreviewState}
+                  />
+                )}
+                {hasZone('rightSleeve') && (
+                  <InteractiveContainer
+                    type="rightSleeve"
+                    title="RIGHT SLEEVE"
+                    width={ZONE_SIZES.rightSleeve.width}
+                    height={ZONE_SIZES.rightSleeve.height}
+                    className="w-40 h-28"
+                    isSelected={selectedZone === 'rightSleeve'}
+                    containerLayers={containerLayers}
+                    selectedLayers={selectedLayers}
+                    dragOverStates={dragOverStates}
+                    setContainerLayers={setContainerLayers}
+                    setSelectedLayers={setSelectedLayers}
+                    onSelectZone={setSelectedZone}
+                    setDragOverStates={setDragOverStates}
+                    activeContainer={activeContainer}
+                    setActiveContainer={setActiveContainer}
+                    currentImage={currentImage}
+                    currentSvg={currentSvg}
+                    clearCurrentImage={clearCurrentImage}
+                    onLayerDragStart={beginLayerDrag}
+                    onLayerDragEnd={endLayerDrag}
+                    imageTransforms={imageTransforms}
+                    setPreviewState={setPreviewState}
+                  />
+                )}
               </div>
 
               {/* Bottom row: Front and Back (larger) */}
               <div className="flex justify-center gap-12 px-8">
-                <InteractiveContainer
-                  type="front"
-                  title="FRONT"
-                  width={224}
-                  height={144}
-                  className="w-56 h-36"
-                  containerImages={containerImages}
-                  containerTransforms={containerTransforms}
-                  dragOverStates={dragOverStates}
-                  setContainerImages={setContainerImages}
-                  setContainerTransforms={setContainerTransforms}
-                  setDragOverStates={setDragOverStates}
-                  activeContainer={activeContainer}
-                  setActiveContainer={setActiveContainer}
-                  currentImage={currentImage}
-                  setCurrentImage={setCurrentImage}
-                  imageTransforms={imageTransforms}
-                  setPreviewState={setPreviewState}
-                />
-                <InteractiveContainer
-                  type="back"
-                  title="BACK"
-                  width={224}
-                  height={144}
-                  className="w-56 h-36"
-                  containerImages={containerImages}
-                  containerTransforms={containerTransforms}
-                  dragOverStates={dragOverStates}
-                  setContainerImages={setContainerImages}
-                  setContainerTransforms={setContainerTransforms}
-                  setDragOverStates={setDragOverStates}
-                  activeContainer={activeContainer}
-                  setActiveContainer={setActiveContainer}
-                  currentImage={currentImage}
-                  setCurrentImage={setCurrentImage}
-                  imageTransforms={imageTransforms}
-                  setPreviewState={setPreviewState}
-                />
+                {hasZone('front') && (
+                  <InteractiveContainer
+                    type="front"
+                    title="FRONT"
+                    width={ZONE_SIZES.front.width}
+                    height={ZONE_SIZES.front.height}
+                    className="w-56 h-36"
+                    isSelected={selectedZone === 'front'}
+                    containerLayers={containerLayers}
+                    selectedLayers={selectedLayers}
+                    dragOverStates={dragOverStates}
+                    setContainerLayers={setContainerLayers}
+                    setSelectedLayers={setSelectedLayers}
+                    onSelectZone={setSelectedZone}
+                    setDragOverStates={setDragOverStates}
+                    activeContainer={activeContainer}
+                    setActiveContainer={setActiveContainer}
+                    currentImage={currentImage}
+                    currentSvg={currentSvg}
+                    clearCurrentImage={clearCurrentImage}
+                    onLayerDragStart={beginLayerDrag}
+                    onLayerDragEnd={endLayerDrag}
+                    imageTransforms={imageTransforms}
+                    setPreviewState={setPreviewState}
+                  />
+                )}
+                {hasZone('back') && (
+                  <InteractiveContainer
+                    type="back"
+                    title="BACK"
+                    width={ZONE_SIZES.back.width}
+                    height={ZONE_SIZES.back.height}
+                    className="w-56 h-36"
+                    isSelected={selectedZone === 'back'}
+                    containerLayers={containerLayers}
+                    selectedLayers={selectedLayers}
+                    dragOverStates={dragOverStates}
+                    setContainerLayers={setContainerLayers}
+                    setSelectedLayers={setSelectedLayers}
+                    onSelectZone={setSelectedZone}
+                    setDragOverStates={setDragOverStates}
+                    activeContainer={activeContainer}
+                    setActiveContainer={setActiveContainer}
+                    currentImage={currentImage}
+                    currentSvg={currentSvg}
+                    clearCurrentImage={clearCurrentImage}
+                    onLayerDragStart={beginLayerDrag}
+                    onLayerDragEnd={endLayerDrag}
+                    imageTransforms={imageTransforms}
+                    setPreviewState={setPreviewState}
+                  />
+                )}
               </div>
 
               {/* Unified Image Control Component */}
@@ -1652,7 +2109,7 @@ export default function EditorPage() {
 
                   <button
                     onClick={() => {
-                      setCurrentImage(null);
+                      clearCurrentImage();
                       setContextMenu(null);
                     }}
                     className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
@@ -1667,6 +2124,19 @@ export default function EditorPage() {
             </div>
           </div>
 
+          {/* Layer stack of the selected zone */}
+          <div className="max-w-md mx-auto mt-4">
+            <ZoneLayersPanel
+              title={ZONE_TITLES[selectedZone]}
+              layers={containerLayers[selectedZone]}
+              selectedLayerId={selectedLayers[selectedZone]}
+              onSelect={(id) => setSelectedLayers(prev => ({ ...prev, [selectedZone]: id }))}
+              onChange={(id, changes) => updateLayer(selectedZone, id, changes)}
+              onMove={(id, direction) => moveLayer(selectedZone, id, direction)}
+              onRemove={(id) => removeLayer(selectedZone, id)}
+            />
+          </div>
+
           {/* Upload prompt when no image */}
           {!currentImage && (
             <div className="text-center mt-12 p-12 bg-white rounded-lg shadow-md border-2 border-dashed border-gray-300">
@@ -1692,73 +2162,85 @@ export default function EditorPage() {
       <div className="w-96 bg-white border-l border-gray-200 flex flex-col shadow-lg">
         <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-purple-500 to-pink-600">
           <h2 className="text-xl font-bold text-white">3D Preview</h2>
-          <p className="text-purple-100 text-sm mt-1">Live view of your design</p>
+          <p className="text-purple-100 text-sm mt-1">Live view of your design · drag a placed print to move it</p>
         </div>
 
-        <div className="flex-1 relative bg-gradient-to-br from-gray-50 to-gray-100">
-          {/* Debug logs for value flow verification */}
-          {(() => { console.log('🟣 containerImages', containerImages); console.log('🟣 previewState', previewState); return null; })()}
+        <div className="px-6 py-3 border-b border-gray-200">
+          <div className="grid grid-cols-2 gap-2">
+            {([['decal', 'Wrap (Decal)'], ['uv', 'UV Exact']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setProjection(mode)}
+                className={`py-1.5 text-xs rounded-lg border-2 font-medium transition-colors ${projection === mode
+                  ? 'border-pink-500 bg-pink-50 text-pink-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {hasGlowInk && (
+            <button
+              onClick={() => setGlowPreview(prev => !prev)}
+              className={`mt-2 w-full py-1.5 text-xs rounded-lg border-2 font-medium transition-colors ${glowPreview
+                ? 'border-pink-500 bg-gray-900 text-green-300'
+                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+            >
+              {glowPreview ? '🌙 Lights Off · Glow Preview' : '🌙 Preview Glow in the Dark'}
+            </button>
+          )}
+        </div>
 
+        <div className="flex-1 relative bg-gradient-to-br from-gray-50 to-gray-100">
           <Scene3D
             className="absolute inset-0"
-            colors={{
-              body: tshirtColor,
-              neck: tshirtColor,
-              neckBorder: tshirtColor,
-              cuff: tshirtColor,
-              buttons: tshirtColor,
-              ribbedHem: tshirtColor,
-            }}
+            garment={garment}
+            colors={garmentColors}
             textures={{
-              // Show placed container images
-              ...(containerImages.front && { front: containerImages.front }),
-              ...(containerImages.back && { back: containerImages.back }),
-              ...(containerImages.leftSleeve && { leftSleeve: containerImages.leftSleeve }),
-              ...(containerImages.rightSleeve && { rightSleeve: containerImages.rightSleeve }),
+              // Show each zone's flattened layer stack
+              ...(zoneTextures.front && { front: zoneTextures.front }),
+              ...(zoneTextures.back && { back: zoneTextures.back }),
+              ...(zoneTextures.leftSleeve && { leftSleeve: zoneTextures.leftSleeve }),
+              ...(zoneTextures.rightSleeve && { rightSleeve: zoneTextures.rightSleeve }),
               // Show preview when hovering over container with image
               ...(previewState.showPreview && previewState.previewImage && previewState.previewContainer && {
                 [previewState.previewContainer]: previewState.previewImage
               }),
             }}
+            printSurfaces={Object.fromEntries(
+              // The hover preview is a bare image, so it has no surface map
+              Object.entries(zoneSurfaces).filter(([zone]) => !(previewState.showPreview && zone === previewState.previewContainer))
+            )}
             textureTransforms={{
-              // Show transforms for placed images - using same divisors as Scene3D
-              ...(containerImages.front && {
-                front: {
-                  position: { x: containerTransforms.front.x / 1500, y: -containerTransforms.front.y / 1500 },
-                  scale: containerTransforms.front.scale,
-                  rotation: containerTransforms.front.rotation,
-                }
-              }),
-              ...(containerImages.back && {
-                back: {
-                  position: { x: containerTransforms.back.x / 1500, y: -containerTransforms.back.y / 1500 },
-                  scale: containerTransforms.back.scale,
-                  rotation: containerTransforms.back.rotation,
-                }
-              }),
-              ...(containerImages.leftSleeve && {
-                leftSleeve: {
-                  position: { x: containerTransforms.leftSleeve.x / 1500, y: -containerTransforms.leftSleeve.y / 1500 },
-                  scale: containerTransforms.leftSleeve.scale,
-                  rotation: containerTransforms.leftSleeve.rotation,
-                }
-              }),
-              ...(containerImages.rightSleeve && {
-                rightSleeve: {
-                  position: { x: containerTransforms.rightSleeve.x / 1500, y: -containerTransforms.rightSleeve.y / 1500 },
-                  scale: containerTransforms.rightSleeve.scale,
-                  rotation: containerTransforms.rightSleeve.rotation,
-                }
-              }),
+              // Flattened stacks already hold the layer placement, so they cover the whole zone
+              ...(zoneTextures.front && { front: FULL_ZONE_TRANSFORM }),
+              ...(zoneTextures.back && { back: FULL_ZONE_TRANSFORM }),
+              ...(zoneTextures.leftSleeve && { leftSleeve: FULL_ZONE_TRANSFORM }),
+              ...(zoneTextures.rightSleeve && { rightSleeve: FULL_ZONE_TRANSFORM }),
               // Show preview transforms when hovering over container with image
               ...(previewState.showPreview && previewState.previewContainer && {
                 [previewState.previewContainer]: {
-                  position: { x: previewState.previewTransforms.x / 1500, y: -previewState.previewTransforms.y / 1500 },
+                  position: {
+                    x: previewState.previewTransforms.x / ZONE_SIZES[previewState.previewContainer].width,
+                    y: -previewState.previewTransforms.y / ZONE_SIZES[previewState.previewContainer].height,
+                  },
                   scale: previewState.previewTransforms.scale,
                   rotation: previewState.previewTransforms.rotation,
                 }
               }),
             }}
+            uvTextures={Object.fromEntries(
+              // The hover preview is placed as a decal, so let it show through
+              Object.entries(uvTextures).filter(([zone]) => !(previewState.showPreview && zone === previewState.previewContainer))
+            )}
+            glowPreview={hasGlowInk && glowPreview}
+            findDesign={findDesign}
+            onDesignMove={handleDesignMove}
+            onDesignDrag={handleDesignDrag}
+            dragPreviews={dragPreviews}
+            onModelInspect={setModelReport}
           />
         </div>
       </div>
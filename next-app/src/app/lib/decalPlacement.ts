@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry.js';
+
+// Where a design sits inside its print zone.
+// position: offset from the zone centre as a fraction of the zone width/height (+y is up)
+// scale: design width as a percentage of the zone width
+// rotation: degrees, clockwise as seen from outside the garment
+export interface TextureTransform {
+  position: { x: number; y: number };
+  scale: number;
+  rotation: number;
+}
+
+export const DEFAULT_TEXTURE_TRANSFORM: TextureTransform = {
+  position: { x: 0, y: 0 },
+  scale: 60,
+  rotation: 0,
+};
+
+// Print zone panel described in the mesh's own space: a facing direction plus the
+// extents of the panel measured along garment-right and garment-up
+export interface ZoneFrame {
+  center: THREE.Vector3; // middle of the panel, on its outer surface
+  normal: THREE.Vector3;
+  right: THREE.Vector3;
+  up: THREE.Vector3;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const zoneFrameCache = new WeakMap<THREE.BufferGeometry, ZoneFrame>();
+
+function computeZoneFrame(geometry: THREE.BufferGeometry): ZoneFrame {
+  const position = geometry.attributes.position;
+  const index = geometry.index;
+  const triangleCount = index ? index.count / 3 : position.count / 3;
+  const vertexAt = (i: number, target: THREE.Vector3) =>
+    target.fromBufferAttribute(position, index ? index.getX(i) : i);
+
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const boxCenter = box.getCenter(new THREE.Vector3());
+
+  // Area-weighted average of the face normals points the way a flat panel faces
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const summed = new THREE.Vector3();
+  let totalArea = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    vertexAt(t * 3, a);
+    vertexAt(t * 3 + 1, b);
+    vertexAt(t * 3 + 2, c);
+    const faceNormal = b.sub(a).cross(c.sub(a));
+    totalArea += faceNormal.length();
+    summed.add(faceNormal);
+  }
+
+  // Tubes (sleeves) cancel out; fall back to pointing away from the garment's centre line
+  const normal = summed.length() > totalArea * 0.2
+    ? summed.normalize()
+    : new THREE.Vector3(boxCenter.x, 0, boxCenter.z).normalize();
+  if (normal.lengthSq() === 0) normal.set(0, 0, 1);
+
+  const up = new THREE.Vector3(0, 1, 0).addScaledVector(normal, -normal.y);
+  if (up.lengthSq() < 1e-6) up.set(0, 0, -1);
+  up.normalize();
+  const right = new THREE.Vector3().crossVectors(up, normal).normalize();
+
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity);
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  const offset = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    offset.fromBufferAttribute(position, i).sub(boxCenter);
+    const projected = new THREE.Vector3(offset.dot(right), offset.dot(up), offset.dot(normal));
+    min.min(projected);
+    max.max(projected);
+  }
+
+  const center = boxCenter.clone()
+    .addScaledVector(right, (min.x + max.x) / 2)
+    .addScaledVector(up, (min.y + max.y) / 2)
+    .addScaledVector(normal, max.z);
+
+  return {
+    center,
+    normal,
+    right,
+    up,
+    width: max.x - min.x,
+    height: max.y - min.y,
+    depth: max.z - min.z,
+  };
+}
+
+export function getZoneFrame(mesh: THREE.Mesh): ZoneFrame {
+  let frame = zoneFrameCache.get(mesh.geometry);
+  if (!frame) {
+    frame = computeZoneFrame(mesh.geometry);
+    zoneFrameCache.set(mesh.geometry, frame);
+  }
+  return frame;
+}
+
+// Triangles of a mesh bucketed on a coarse grid, to find the one under a point quickly
+interface SurfaceGrid {
+  cellSize: number;
+  cells: Map<string, number[]>;
+}
+
+const surfaceGridCache = new WeakMap<THREE.BufferGeometry, SurfaceGrid>();
+
+function getSurfaceGrid(geometry: THREE.BufferGeometry): SurfaceGrid {
+  let grid = surfaceGridCache.get(geometry);
+  if (grid) return grid;
+
+  const position = geometry.attributes.position;
+  const index = geometry.index;
+  const triangleCount = (index ? index.count : position.count) / 3;
+  geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox!.getSize(new THREE.Vector3()).length();
+  const cellSize = Math.max((diagonal / Math.sqrt(Math.max(triangleCount, 1))) * 2, 1e-6);
+
+  const cells = new Map<string, number[]>();
+  const corner = new THREE.Vector3();
+  const box = new THREE.Box3();
+  for (let t = 0; t < triangleCount; t++) {
+    box.makeEmpty();
+    for (let k = 0; k < 3; k++) {
+      box.expandByPoint(corner.fromBufferAttribute(position, index ? index.getX(t * 3 + k) : t * 3 + k));
+    }
+    for (let x = Math.floor(box.min.x / cellSize); x <= Math.floor(box.max.x / cellSize); x++) {
+      for (let y = Math.floor(box.min.y / cellSize); y <= Math.floor(box.max.y / cellSize); y++) {
+        for (let z = Math.floor(box.min.z / cellSize); z <= Math.floor(box.max.z / cellSize); z++) {
+          const key = `${x},${y},${z}`;
+          const cell = cells.get(key);
+          if (cell) cell.push(t);
+          else cells.set(key, [t]);
+        }
+      }
+    }
+  }
+
+  grid = { cellSize, cells };
+  surfaceGridCache.set(geometry, grid);
+  return grid;
+}
+
+// Give the decal the garment's own UVs as `uv1`: every decal vertex lies on a triangle of
+// the mesh, so its surface UV is that triangle's UVs interpolated at the vertex. Lets the
+// print be clipped by masks authored in the garment's UV space.
+function transferSurfaceUvs(decalGeometry: THREE.BufferGeometry, mesh: THREE.Mesh) {
+  const geometry = mesh.geometry;
+  const uv = geometry.attributes.uv as THREE.BufferAttribute | undefined;
+  if (!uv) return;
+  const position = geometry.attributes.position as THREE.BufferAttribute;
+  const index = geometry.index;
+  const { cellSize, cells } = getSurfaceGrid(geometry);
+  const vertexOf = (t: number, k: number) => (index ? index.getX(t * 3 + k) : t * 3 + k);
+
+  const triangle = new THREE.Triangle();
+  const point = new THREE.Vector3();
+  const closest = new THREE.Vector3();
+  const uvs = [new THREE.Vector2(), new THREE.Vector2(), new THREE.Vector2()];
+  const surfaceUv = new THREE.Vector2();
+  const decalPosition = decalGeometry.attributes.position;
+  const result = new Float32Array(decalPosition.count * 2);
+
+  for (let i = 0; i < decalPosition.count; i++) {
+    point.fromBufferAttribute(decalPosition, i);
+    const cx = Math.floor(point.x / cellSize);
+    const cy = Math.floor(point.y / cellSize);
+    const cz = Math.floor(point.z / cellSize);
+
+    let best = -1;
+    let bestDistance = Infinity;
+    const search = (candidates: number[] | undefined) => {
+      candidates?.forEach((t) => {
+        triangle.setFromAttributeAndIndices(position, vertexOf(t, 0), vertexOf(t, 1), vertexOf(t, 2));
+        const distance = triangle.closestPointToPoint(point, closest).distanceToSquared(point);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = t;
+        }
+      });
+    };
+    search(cells.get(`${cx},${cy},${cz}`));
+    if (best < 0) {
+      for (let x = cx - 1; x <= cx + 1; x++) {
+        for (let y = cy - 1; y <= cy + 1; y++) {
+          for (let z = cz - 1; z <= cz + 1; z++) search(cells.get(`${x},${y},${z}`));
+        }
+      }
+    }
+    if (best < 0) continue;
+
+    triangle.setFromAttributeAndIndices(position, vertexOf(best, 0), vertexOf(best, 1), vertexOf(best, 2));
+    triangle.closestPointToPoint(point, closest);
+    for (let k = 0; k < 3; k++) uvs[k].fromBufferAttribute(uv, vertexOf(best, k));
+    THREE.Triangle.getInterpolation(closest, triangle.a, triangle.b, triangle.c, uvs[0], uvs[1], uvs[2], surfaceUv);
+    result[i * 2] = surfaceUv.x;
+    result[i * 2 + 1] = surfaceUv.y;
+  }
+
+  decalGeometry.setAttribute('uv1', new THREE.BufferAttribute(result, 2));
+}
+
+const raycaster = new THREE.Raycaster();
+const projector = new THREE.Object3D();
+
+// Project a design footprint onto the zone mesh surface. The geometry is in the zone
+// mesh's local space, so it follows the garment when it rotates or floats; it carries
+// the print's UVs in `uv` and the garment surface UVs in `uv1`.
+export function projectDecalGeometry(
+  mesh: THREE.Mesh,
+  aspect: number,
+  transform: TextureTransform = DEFAULT_TEXTURE_TRANSFORM
+): THREE.BufferGeometry | null {
+  mesh.updateWorldMatrix(true, false);
+  const frame = getZoneFrame(mesh);
+
+  const anchor = frame.center.clone()
+    .addScaledVector(frame.right, transform.position.x * frame.width)
+    .addScaledVector(frame.up, transform.position.y * frame.height)
+    .applyMatrix4(mesh.matrixWorld);
+  const worldNormal = frame.normal.clone().transformDirection(mesh.matrixWorld);
+  const worldUp = frame.up.clone().transformDirection(mesh.matrixWorld);
+
+  // Find the actual surface point under the anchor, shooting in from outside the panel
+  const reach = Math.max(frame.depth, frame.width, frame.height);
+  raycaster.set(anchor.clone().addScaledVector(worldNormal, reach), worldNormal.clone().negate());
+  const hit = raycaster.intersectObject(mesh, false)[0];
+
+  const point = hit ? hit.point : anchor;
+  const surfaceNormal = hit?.face
+    ? hit.face.normal.clone().transformDirection(mesh.matrixWorld)
+    : worldNormal.clone();
+  if (surfaceNormal.dot(worldNormal) < 0) surfaceNormal.negate();
+  // Half panel / half local surface: follows the curve without skewing on small wrinkles
+  const projectDirection = surfaceNormal.add(worldNormal).normalize();
+
+  projector.position.copy(point);
+  projector.up.copy(worldUp);
+  projector.lookAt(point.clone().add(projectDirection));
+  projector.rotateZ(THREE.MathUtils.degToRad(-transform.rotation));
+
+  const width = Math.max(frame.width * (transform.scale / 100), 1e-3);
+  const height = width / (aspect || 1);
+  const size = new THREE.Vector3(width, height, Math.max(frame.depth, width));
+
+  const geometry = new DecalGeometry(mesh, point, projector.rotation, size);
+  if (!geometry.attributes.position || geometry.attributes.position.count === 0) {
+    geometry.dispose();
+    return null;
+  }
+  geometry.applyMatrix4(mesh.matrixWorld.clone().invert());
+  transferSurfaceUvs(geometry, mesh);
+  return geometry;
+}
+
+// Decal mesh for a design, to be added as a child of the zone mesh. Moving it later only
+// needs a new projectDecalGeometry; the material and its texture stay as they are.
+export function createDesignDecal(
+  mesh: THREE.Mesh,
+  material: THREE.Material,
+  aspect: number,
+  transform: TextureTransform = DEFAULT_TEXTURE_TRANSFORM
+): THREE.Mesh | null {
+  const geometry = projectDecalGeometry(mesh, aspect, transform);
+  if (!geometry) return null;
+
+  const decal = new THREE.Mesh(geometry, material);
+  decal.name = `${mesh.name}-decal`;
+  decal.renderOrder = 2;
+  decal.raycast = () => {}; // picking should hit the garment, not the print
+  decal.userData.isDesignDecal = true;
+  return decal;
+}
+
+// Inverse of the placement above: where a point on the garment surface falls inside
+// the zone, in the same units as TextureTransform.position (clamped to the zone). Given
+// the aspect of a print as wide as the zone, y is measured in that print's projected
+// height instead, so both axes are fractions of the print image.
+export function surfacePointToPosition(mesh: THREE.Mesh, worldPoint: THREE.Vector3, printAspect?: number): { x: number; y: number } {
+  const frame = getZoneFrame(mesh);
+  const offset = mesh.worldToLocal(worldPoint.clone()).sub(frame.center);
+  const height = printAspect ? frame.width / printAspect : frame.height;
+  return {
+    x: THREE.MathUtils.clamp(offset.dot(frame.right) / frame.width, -0.5, 0.5),
+    y: THREE.MathUtils.clamp(offset.dot(frame.up) / height, -0.5, 0.5),
+  };
+}
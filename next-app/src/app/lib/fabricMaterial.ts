@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import { getFabricNormalMap } from './fabricNormalMaps';
+import { acquirePatternTexture, releasePatternTexture } from './fabricPatterns';
+import { acquireSwatchTexture, releaseSwatchTexture } from './fabricSwatches';
+import { createResourceCache } from './gpuResources';
+
+export interface TextureSettings {
+  fabricType: 'cotton' | 'polyester' | 'wool' | 'linen' | 'silk' | 'denim';
+  finish: 'matte' | 'glossy' | 'metallic' | 'pearlescent';
+  pattern: 'none' | 'subtle' | 'bold' | 'geometric' | 'floral' | 'custom';
+  roughness: number;
+  metallic: number;
+  normalStrength: number;
+  preset: 'none' | 'casual' | 'formal' | 'sporty' | 'luxury';
+  patternColor: string;
+  patternScale: number; // tiles across the garment UVs
+  patternRotation: number; // degrees
+  customPatternUrl?: string; // repeat unit exported by the pattern creator
+  customTexture?: CustomTextureSettings;
+}
+
+export type SwatchPart = 'body' | 'cuff' | 'ribbedHem';
+
+// An uploaded mill swatch, repeated across the selected garment parts
+export interface CustomTextureSettings {
+  url: string;
+  repeat: number;
+  offsetX: number;
+  offsetY: number;
+  rotation: number; // degrees
+  parts: SwatchPart[];
+}
+
+// Per-fiber sheen: silk and wool scatter light at grazing angles, denim and linen barely do
+const FABRIC_SHEEN: Record<TextureSettings['fabricType'], { sheen: number; sheenRoughness: number }> = {
+  cotton: { sheen: 0.2, sheenRoughness: 0.8 },
+  polyester: { sheen: 0.3, sheenRoughness: 0.5 },
+  wool: { sheen: 0.6, sheenRoughness: 0.9 },
+  linen: { sheen: 0.1, sheenRoughness: 0.9 },
+  silk: { sheen: 1.0, sheenRoughness: 0.3 },
+  denim: { sheen: 0.0, sheenRoughness: 1.0 },
+};
+
+export const DEFAULT_TEXTURE_SETTINGS: TextureSettings = {
+  fabricType: 'cotton',
+  finish: 'matte',
+  pattern: 'none',
+  roughness: 0.5,
+  metallic: 0.0,
+  normalStrength: 0.5,
+  preset: 'none',
+  patternColor: '#1e3a8a',
+  patternScale: 6,
+  patternRotation: 0,
+};
+
+// Alpha-blend a tiling print over the garment colour (a plain `map` would multiply the two instead)
+function blendPatternOverColor(material: THREE.MeshStandardMaterial, pattern: THREE.Texture) {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.patternMap = { value: pattern };
+    shader.uniforms.patternTransform = { value: pattern.matrix };
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nuniform mat3 patternTransform;\nvarying vec2 vPatternUv;')
+      .replace('#include <uv_vertex>', '#include <uv_vertex>\nvPatternUv = ( patternTransform * vec3( uv, 1.0 ) ).xy;');
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform sampler2D patternMap;\nvarying vec2 vPatternUv;')
+      .replace(
+        '#include <map_fragment>',
+        '#include <map_fragment>\nvec4 patternColor = texture2D( patternMap, vPatternUv );\ndiffuseColor.rgb = mix( diffuseColor.rgb, patternColor.rgb, patternColor.a );'
+      );
+  };
+}
+
+interface FabricMaterialOptions {
+  withPattern?: boolean;
+  part?: SwatchPart;
+}
+
+// Build the PBR material for one garment part from the Texture tab settings.
+// Only body panels carry the surface pattern; trims stay plain. A custom swatch
+// replaces the flat colour on whichever parts it was assigned to.
+function createFabricMaterial(
+  color: string,
+  texture: TextureSettings,
+  { withPattern = false, part }: FabricMaterialOptions
+): THREE.MeshStandardMaterial {
+  const swatch = part && texture.customTexture?.parts.includes(part)
+    ? acquireSwatchTexture(texture.customTexture)
+    : null;
+  const material = createFinishMaterial(swatch ? '#ffffff' : color, texture);
+  if (swatch) {
+    material.map = swatch;
+  }
+
+  const pattern = withPattern ? acquirePatternTexture(texture) : null;
+  if (pattern) {
+    blendPatternOverColor(material, pattern);
+  }
+
+  material.userData.releaseTextures = () => {
+    if (swatch) releaseSwatchTexture(swatch);
+    if (pattern) releasePatternTexture(pattern);
+  };
+  return material;
+}
+
+// Parts with the same colour and settings share one material (and one shader program)
+const fabricMaterials = createResourceCache<THREE.MeshStandardMaterial>((material) => {
+  material.dispose();
+  material.userData.releaseTextures();
+});
+
+// Shared fabric material for a garment part; hand it back with releaseFabricMaterial
+export function acquireFabricMaterial(
+  color: string,
+  texture: TextureSettings = DEFAULT_TEXTURE_SETTINGS,
+  options: FabricMaterialOptions = {}
+): THREE.MeshStandardMaterial {
+  const key = JSON.stringify([color, texture, options.withPattern ?? false, options.part ?? null]);
+  return fabricMaterials.acquire(key, () => createFabricMaterial(color, texture, options));
+}
+
+export function releaseFabricMaterial(material: THREE.MeshStandardMaterial) {
+  fabricMaterials.release(material);
+}
+
+function createFinishMaterial(color: string, texture: TextureSettings): THREE.MeshStandardMaterial {
+  const { sheen, sheenRoughness } = FABRIC_SHEEN[texture.fabricType];
+  const base = {
+    color: new THREE.Color(color),
+    roughness: THREE.MathUtils.clamp(texture.roughness, 0, 1),
+    metalness: THREE.MathUtils.clamp(texture.metallic, 0, 1),
+    side: THREE.DoubleSide,
+    depthWrite: true,
+    // Weave micro-structure, scaled by the Bump Strength slider
+    ...(texture.normalStrength > 0 && {
+      normalMap: getFabricNormalMap(texture.fabricType),
+      normalScale: new THREE.Vector2(texture.normalStrength, texture.normalStrength),
+    }),
+  };
+
+  switch (texture.finish) {
+    case 'glossy':
+      return new THREE.MeshPhysicalMaterial({
+        ...base,
+        sheen,
+        sheenRoughness,
+        clearcoat: 0.6,
+        clearcoatRoughness: base.roughness * 0.5,
+      });
+
+    case 'metallic':
+      // Metallic finish never drops below a visibly metal response, the slider adds on top
+      return new THREE.MeshStandardMaterial({
+        ...base,
+        metalness: Math.max(base.metalness, 0.6),
+        roughness: Math.min(base.roughness, 0.6),
+      });
+
+    case 'pearlescent':
+      return new THREE.MeshPhysicalMaterial({
+        ...base,
+        sheen: Math.max(sheen, 0.5),
+        sheenRoughness,
+        sheenColor: new THREE.Color('#f5f0ff'),
+        iridescence: 1,
+        iridescenceIOR: 1.3,
+        iridescenceThicknessRange: [100, 400],
+        clearcoat: 0.3,
+        clearcoatRoughness: 0.2,
+      });
+
+    case 'matte':
+    default:
+      if (sheen > 0) {
+        return new THREE.MeshPhysicalMaterial({ ...base, sheen, sheenRoughness });
+      }
+      return new THREE.MeshStandardMaterial(base);
+  }
+}
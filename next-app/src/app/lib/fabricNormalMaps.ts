@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+import type { TextureSettings } from './fabricMaterial';
+
+type FabricType = TextureSettings['fabricType'];
+
+const MAP_SIZE = 256;
+
+// How many times each weave tile repeats across the garment UVs
+const FABRIC_REPEAT: Record<FabricType, number> = {
+  cotton: 28,
+  polyester: 40,
+  wool: 16,
+  linen: 20,
+  silk: 48,
+  denim: 24,
+};
+
+// Cheap deterministic hash so every map is identical between sessions
+function hash(x: number, y: number, seed: number) {
+  const h = Math.sin(x * 127.1 + y * 311.7 + seed * 74.7) * 43758.5453;
+  return h - Math.floor(h);
+}
+
+// Value noise that wraps every `period` cells, keeping the map seamless when tiled
+function periodicNoise(x: number, y: number, period: number, seed: number) {
+  const xi = Math.floor(x);
+  const yi = Math.floor(y);
+  const xf = x - xi;
+  const yf = y - yi;
+  const u = xf * xf * (3 - 2 * xf);
+  const v = yf * yf * (3 - 2 * yf);
+  const wrap = (n: number) => ((n % period) + period) % period;
+
+  const a = hash(wrap(xi), wrap(yi), seed);
+  const b = hash(wrap(xi + 1), wrap(yi), seed);
+  const c = hash(wrap(xi), wrap(yi + 1), seed);
+  const d = hash(wrap(xi + 1), wrap(yi + 1), seed);
+
+  return a + (b - a) * u + (c - a) * v + (a - b - c + d) * u * v;
+}
+
+function fractalNoise(x: number, y: number, period: number, seed: number, octaves: number) {
+  let value = 0;
+  let amplitude = 0.5;
+  let frequency = 1;
+  for (let i = 0; i < octaves; i++) {
+    value += periodicNoise(x * frequency, y * frequency, period * frequency, seed + i) * amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return value;
+}
+
+// Height of the fabric surface at pixel (x, y), in 0..1
+function sampleHeight(fabricType: FabricType, x: number, y: number): number {
+  const u = x / MAP_SIZE;
+  const v = y / MAP_SIZE;
+  const TAU = Math.PI * 2;
+
+  switch (fabricType) {
+    case 'cotton': {
+      // Pique knit: raised diamond cells on offset rows
+      const cells = 8;
+      const row = Math.floor(v * cells);
+      const cu = u * cells + (row % 2) * 0.5;
+      const cv = v * cells;
+      const du = Math.abs((cu % 1) - 0.5);
+      const dv = Math.abs((cv % 1) - 0.5);
+      const cell = 1 - Math.min(1, (du + dv) * 2);
+      return Math.sqrt(cell) * 0.85 + periodicNoise(u * 32, v * 32, 32, 1) * 0.15;
+    }
+
+    case 'polyester':
+      // Very fine, almost flat filament texture
+      return 0.5 + (periodicNoise(u * 64, v * 64, 64, 2) - 0.5) * 0.2;
+
+    case 'denim': {
+      // 3/1 twill: diagonal ridges with a faint weft crossing
+      const ridges = 16;
+      const diagonal = 0.5 + 0.5 * Math.sin((u + v) * ridges * TAU);
+      const weft = 0.5 + 0.5 * Math.sin(v * ridges * 4 * TAU);
+      return diagonal * 0.8 + weft * 0.1 + periodicNoise(u * 16, v * 16, 16, 3) * 0.1;
+    }
+
+    case 'linen': {
+      // Plain weave whose threads thicken and thin irregularly (slubs)
+      const threads = 12;
+      const warpSlub = periodicNoise(u * 4, Math.floor(v * threads), 4, 4);
+      const weftSlub = periodicNoise(Math.floor(u * threads), v * 4, 4, 5);
+      const warp = Math.pow(0.5 + 0.5 * Math.sin(v * threads * TAU), 0.5 + warpSlub * 2);
+      const weft = Math.pow(0.5 + 0.5 * Math.sin(u * threads * TAU), 0.5 + weftSlub * 2);
+      return Math.max(warp, weft) * 0.8 + periodicNoise(u * 24, v * 24, 24, 6) * 0.2;
+    }
+
+    case 'silk': {
+      // Satin: long, fine floats running along the warp
+      const floats = 32;
+      const lines = 0.5 + 0.5 * Math.sin(v * floats * TAU);
+      return 0.5 + (lines - 0.5) * 0.25 + (periodicNoise(u * 8, v * 64, 8, 7) - 0.5) * 0.1;
+    }
+
+    case 'wool':
+    default: {
+      // Chunky knit chevrons buried under fuzzy fibres
+      const stitches = 6;
+      const chevron = Math.abs(((u * stitches) % 1) - 0.5) * 2;
+      const knit = 0.5 + 0.5 * Math.sin((v * stitches * 2 + chevron) * TAU);
+      return knit * 0.5 + fractalNoise(u * 16, v * 16, 16, 8, 4) * 0.5;
+    }
+  }
+}
+
+// Sobel over the wrapped height field, packed as a tangent-space normal map
+function createNormalMapCanvas(fabricType: FabricType): HTMLCanvasElement {
+  const heights = new Float32Array(MAP_SIZE * MAP_SIZE);
+  for (let y = 0; y < MAP_SIZE; y++) {
+    for (let x = 0; x < MAP_SIZE; x++) {
+      heights[y * MAP_SIZE + x] = sampleHeight(fabricType, x, y);
+    }
+  }
+
+  const at = (x: number, y: number) =>
+    heights[((y + MAP_SIZE) % MAP_SIZE) * MAP_SIZE + ((x + MAP_SIZE) % MAP_SIZE)];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = MAP_SIZE;
+  canvas.height = MAP_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(MAP_SIZE, MAP_SIZE);
+  const depth = 4;
+
+  for (let y = 0; y < MAP_SIZE; y++) {
+    for (let x = 0; x < MAP_SIZE; x++) {
+      const dx =
+        (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)) -
+        (at(x - 1, y - 1) + 2 * at(x - 1, y) + at(x - 1, y + 1));
+      const dy =
+        (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)) -
+        (at(x - 1, y - 1) + 2 * at(x, y - 1) + at(x + 1, y - 1));
+      const normal = new THREE.Vector3(-dx * depth, -dy * depth, 1).normalize();
+
+      const i = (y * MAP_SIZE + x) * 4;
+      image.data[i] = (normal.x * 0.5 + 0.5) * 255;
+      image.data[i + 1] = (normal.y * 0.5 + 0.5) * 255;
+      image.data[i + 2] = (normal.z * 0.5 + 0.5) * 255;
+      image.data[i + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+const normalMapCache = new Map<FabricType, THREE.CanvasTexture>();
+
+// One shared normal map per fabric type, generated the first time it is needed
+export function getFabricNormalMap(fabricType: FabricType): THREE.CanvasTexture {
+  const cached = normalMapCache.get(fabricType);
+  if (cached) return cached;
+
+  const texture = new THREE.CanvasTexture(createNormalMapCanvas(fabricType));
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.set(FABRIC_REPEAT[fabricType], FABRIC_REPEAT[fabricType]);
+  texture.anisotropy = 4;
+  texture.name = `fabric-normal-${fabricType}`;
+
+  normalMapCache.set(fabricType, texture);
+  return texture;
+}
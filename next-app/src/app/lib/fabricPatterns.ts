@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import type { TextureSettings } from './fabricMaterial';
+import { createResourceCache } from './gpuResources';
+
+type SurfacePattern = Exclude<TextureSettings['pattern'], 'none' | 'custom'>;
+
+const TILE_SIZE = 512;
+
+// Draw `draw` at the tile origin and at every wrapped neighbour, so motifs crossing an edge stay seamless
+function drawWrapped(ctx: CanvasRenderingContext2D, draw: (ox: number, oy: number) => void) {
+  for (const ox of [-TILE_SIZE, 0, TILE_SIZE]) {
+    for (const oy of [-TILE_SIZE, 0, TILE_SIZE]) {
+      draw(ox, oy);
+    }
+  }
+}
+
+function drawSubtle(ctx: CanvasRenderingContext2D, color: string) {
+  // Fine pin dots on offset rows, reads as texture rather than print
+  const step = TILE_SIZE / 16;
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.35;
+  for (let row = 0; row < 16; row++) {
+    for (let col = 0; col < 16; col++) {
+      const x = col * step + (row % 2) * (step / 2);
+      const y = row * step + step / 2;
+      drawWrapped(ctx, (ox, oy) => {
+        ctx.beginPath();
+        ctx.arc(x + ox, y + oy, step * 0.12, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+  }
+  ctx.globalAlpha = 1;
+}
+
+function drawBold(ctx: CanvasRenderingContext2D, color: string) {
+  // Rugby stripes: one wide band and one pinstripe per tile
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, TILE_SIZE, TILE_SIZE * 0.25);
+  ctx.fillRect(0, TILE_SIZE * 0.5, TILE_SIZE, TILE_SIZE * 0.05);
+}
+
+function drawGeometric(ctx: CanvasRenderingContext2D, color: string) {
+  // Argyle-style diamond lattice with crossing overcheck lines
+  const half = TILE_SIZE / 2;
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.6;
+  for (const [cx, cy] of [[half, half], [0, 0]]) {
+    drawWrapped(ctx, (ox, oy) => {
+      ctx.beginPath();
+      ctx.moveTo(cx + ox, cy + oy - half);
+      ctx.lineTo(cx + ox + half / 2, cy + oy);
+      ctx.lineTo(cx + ox, cy + oy + half);
+      ctx.lineTo(cx + ox - half / 2, cy + oy);
+      ctx.closePath();
+      ctx.fill();
+    });
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  drawWrapped(ctx, (ox, oy) => {
+    ctx.beginPath();
+    ctx.moveTo(ox, oy);
+    ctx.lineTo(ox + TILE_SIZE, oy + TILE_SIZE);
+    ctx.moveTo(ox + TILE_SIZE, oy);
+    ctx.lineTo(ox, oy + TILE_SIZE);
+    ctx.stroke();
+  });
+}
+
+function drawFlower(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, color: string) {
+  ctx.fillStyle = color;
+  for (let i = 0; i < 5; i++) {
+    const angle = (i / 5) * Math.PI * 2;
+    ctx.beginPath();
+    ctx.ellipse(
+      x + Math.cos(angle) * radius * 0.6,
+      y + Math.sin(angle) * radius * 0.6,
+      radius * 0.45,
+      radius * 0.25,
+      angle,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+  }
+  // Hollow centre lets the garment colour show through each flower
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.beginPath();
+  ctx.arc(x, y, radius * 0.18, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+function drawFloral(ctx: CanvasRenderingContext2D, color: string) {
+  // Half-drop repeat of large and small blooms
+  const motifs = [
+    { x: 0.25, y: 0.25, r: 0.14 },
+    { x: 0.75, y: 0.75, r: 0.14 },
+    { x: 0.75, y: 0.2, r: 0.07 },
+    { x: 0.2, y: 0.7, r: 0.07 },
+    { x: 0.5, y: 0.5, r: 0.05 },
+  ];
+  for (const motif of motifs) {
+    drawWrapped(ctx, (ox, oy) => {
+      drawFlower(ctx, motif.x * TILE_SIZE + ox, motif.y * TILE_SIZE + oy, motif.r * TILE_SIZE, color);
+    });
+  }
+}
+
+const PATTERN_DRAWERS: Record<SurfacePattern, (ctx: CanvasRenderingContext2D, color: string) => void> = {
+  subtle: drawSubtle,
+  bold: drawBold,
+  geometric: drawGeometric,
+  floral: drawFloral,
+};
+
+function createPatternCanvas(pattern: SurfacePattern, patternColor: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = TILE_SIZE;
+  canvas.height = TILE_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  PATTERN_DRAWERS[pattern](ctx, patternColor);
+  return canvas;
+}
+
+// Every colour picked while dragging the picker makes a new tile, so they are shared by
+// content and disposed once no placed pattern uses them
+const patternTiles = createResourceCache<THREE.Texture>((tile) => tile.dispose());
+const tilesLoaded = new WeakMap<THREE.Texture, Promise<void>>();
+const imageLoader = new THREE.ImageLoader();
+
+function loadPatternTile(url: string): THREE.Texture {
+  const tile = new THREE.Texture();
+  tilesLoaded.set(tile, new Promise((resolve) => {
+    imageLoader.load(url, (image) => {
+      tile.image = image;
+      tile.needsUpdate = true;
+      resolve();
+    });
+  }));
+  return tile;
+}
+
+// Each scale and rotation gets its own texture over the shared tile, since parts with the
+// same motif may place it differently. Clones share the tile's image, so it's uploaded once.
+const placedTiles = new WeakMap<THREE.Texture, THREE.Texture>();
+const patternTextures = createResourceCache<THREE.Texture>((placed) => {
+  placed.dispose();
+  patternTiles.release(placedTiles.get(placed)!);
+});
+
+// Seamless motif tile on a transparent ground; the material blends it over the garment colour.
+// Hand it back with releasePatternTexture.
+export function acquirePatternTexture(texture: TextureSettings): THREE.Texture | null {
+  const { pattern, customPatternUrl, patternColor, patternScale, patternRotation } = texture;
+  if (pattern === 'none') return null;
+  if (pattern === 'custom' && !customPatternUrl) return null;
+
+  const tileKey = pattern === 'custom' ? `custom|${customPatternUrl}` : `${pattern}|${patternColor}`;
+  return patternTextures.acquire(`${tileKey}|${patternScale}|${patternRotation}`, () => {
+    const tile = patternTiles.acquire(tileKey, () => {
+      const created = pattern === 'custom'
+        ? loadPatternTile(customPatternUrl!)
+        : new THREE.CanvasTexture(createPatternCanvas(pattern, patternColor));
+      created.colorSpace = THREE.SRGBColorSpace;
+      created.wrapS = THREE.RepeatWrapping;
+      created.wrapT = THREE.RepeatWrapping;
+      created.anisotropy = 4;
+      created.name = `fabric-pattern-${pattern}`;
+      return created;
+    });
+    const placed = tile.clone();
+    placedTiles.set(placed, tile);
+    placed.center.set(0.5, 0.5);
+    placed.repeat.set(patternScale, patternScale);
+    placed.rotation = THREE.MathUtils.degToRad(patternRotation);
+    // Sampled through a custom uniform, so the renderer won't refresh the UV matrix for us
+    placed.updateMatrix();
+    // A clone of an image still loading has nothing to upload until it arrives
+    (tilesLoaded.get(tile) ?? Promise.resolve()).then(() => {
+      placed.needsUpdate = true;
+    });
+    return placed;
+  });
+}
+
+export function releasePatternTexture(pattern: THREE.Texture) {
+  patternTextures.release(pattern);
+}
@@ -0,0 +1,36 @@
+import * as THREE from 'three';
+import type { CustomTextureSettings } from './fabricMaterial';
+import { createResourceCache } from './gpuResources';
+
+const textureLoader = new THREE.TextureLoader();
+const swatchTextures = createResourceCache<THREE.Texture>((texture) => texture.dispose());
+
+// Uploaded swatches are decoded once per image; repeat/offset/rotation are applied on every call.
+// Hand it back with releaseSwatchTexture.
+export function acquireSwatchTexture(swatch: CustomTextureSettings): THREE.Texture {
+  const texture = swatchTextures.acquire(swatch.url, () => {
+    const created = textureLoader.load(
+      swatch.url,
+      undefined,
+      undefined,
+      (err) => console.error('❌ Custom texture failed to load:', err)
+    );
+    created.colorSpace = THREE.SRGBColorSpace;
+    created.flipY = false; // glTF UV convention, same as the design textures
+    created.wrapS = THREE.RepeatWrapping;
+    created.wrapT = THREE.RepeatWrapping;
+    created.anisotropy = 4;
+    created.name = 'fabric-swatch';
+    return created;
+  });
+
+  texture.center.set(0.5, 0.5);
+  texture.repeat.set(swatch.repeat, swatch.repeat);
+  texture.offset.set(swatch.offsetX, swatch.offsetY);
+  texture.rotation = THREE.MathUtils.degToRad(swatch.rotation);
+  return texture;
+}
+
+export function releaseSwatchTexture(texture: THREE.Texture) {
+  swatchTextures.release(texture);
+}
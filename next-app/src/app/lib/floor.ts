@@ -0,0 +1,23 @@
+// Optional stage under the garment: a soft contact shadow, plus a blurred reflection
+export interface FloorSettings {
+  enabled: boolean;
+  shadowOpacity: number; // 0-1
+  shadowBlur: number; // contact shadow softness
+  reflection: number; // 0 = matte floor, 1 = polished
+}
+
+export const DEFAULT_FLOOR_SETTINGS: FloorSettings = {
+  enabled: false,
+  shadowOpacity: 0.6,
+  shadowBlur: 2.5,
+  reflection: 0,
+};
+
+// Space left under the garment's hem at the bottom of its float, in scene units
+export const FLOOR_GAP = 0.05;
+
+// How far above the floor the shadow still registers. The float's full travel is added,
+// so the shadow tightens as the garment dips and spreads out as it rises.
+export function getShadowReach(floatingAmplitude: number) {
+  return 0.8 + floatingAmplitude * 2;
+}
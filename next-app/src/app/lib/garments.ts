@@ -0,0 +1,158 @@
+import type { SwatchPart } from './fabricMaterial';
+
+export type PrintZoneId = 'front' | 'back' | 'leftSleeve' | 'rightSleeve';
+
+// A colourable part of the garment. Mesh names are matched case-insensitively, ignoring
+// spaces, dashes and underscores; a mesh belongs to the part with the longest listed name
+// it contains, so 'neck_border' goes to 'neckborder' rather than 'neck'.
+export interface GarmentPart {
+  id: string; // key in the colours record
+  label: string;
+  meshes: string[];
+  defaultColor: string;
+  fabric?: SwatchPart; // custom swatch slot; 'body' parts also carry the surface pattern
+}
+
+// A printable panel: its mesh in the model and the printable area within it. The area is
+// generated from the mesh's UV islands, shrunk by `maskInset` px (at 1024²); `mask` is an
+// optional hand-painted PNG in the same UV space that replaces the generated one.
+export interface PrintZone {
+  id: PrintZoneId;
+  label: string;
+  mesh: string;
+  mask?: string;
+  maskInset?: number;
+}
+
+// How the model sits in the scene and where the camera starts, so every garment
+// fills the viewport the same way regardless of how it was exported
+export interface GarmentFraming {
+  modelScale: number;
+  modelOffset: [number, number, number];
+  cameraDistance: number;
+  cameraHeight: number;
+}
+
+export interface GarmentDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  modelPath: string;
+  parts: GarmentPart[];
+  defaultPart: string; // part for meshes no other part claims
+  hiddenMeshes: string[]; // helper geometry that should never render
+  printZones: PrintZone[]; // a garment may offer only some of the zones
+  framing: GarmentFraming;
+}
+
+export type GarmentColors = Record<string, string>;
+
+export const POLO_SHIRT: GarmentDefinition = {
+  id: 'polo',
+  name: 'Polo Shirt',
+  icon: '👕',
+  modelPath: '/poloshirt3.glb',
+  parts: [
+    // Print zone panels and any unnamed panels fall back to the body
+    { id: 'body', label: 'Body', meshes: ['body'], defaultColor: '#ffffff', fabric: 'body' },
+    { id: 'neck', label: 'Neck', meshes: ['neck', 'collar'], defaultColor: '#ffffff' },
+    { id: 'neckBorder', label: 'Neck-Border', meshes: ['neckborder'], defaultColor: '#ffffff' },
+    { id: 'cuff', label: 'Cuff', meshes: ['cuff'], defaultColor: '#ffffff', fabric: 'cuff' },
+    { id: 'buttons', label: 'Buttons', meshes: ['button'], defaultColor: '#ffffff' },
+    { id: 'ribbedHem', label: 'Ribbed-Hem', meshes: ['ribbed', 'hem'], defaultColor: '#ffffff', fabric: 'ribbedHem' },
+  ],
+  defaultPart: 'body',
+  hiddenMeshes: ['design'],
+  // Hand-painted printable areas for this model, in place of the generated ones
+  printZones: [
+    { id: 'front', label: 'Front', mesh: 'front', mask: '/masks/front.png' },
+    { id: 'back', label: 'Back', mesh: 'back', mask: '/masks/back.png' },
+    { id: 'leftSleeve', label: 'Left Sleeve', mesh: 'leftsleeve', mask: '/masks/leftSleeve.png' },
+    { id: 'rightSleeve', label: 'Right Sleeve', mesh: 'rightsleeve', mask: '/masks/rightSleeve.png' },
+  ],
+  framing: { modelScale: 1.3, modelOffset: [0, -0.6, 0], cameraDistance: 6.5, cameraHeight: 0 },
+};
+
+// A garment joins the catalogue once its model ships in public/ and its mesh names are
+// checked against the file (the model inspector lists them)
+export const GARMENT_CATALOG: GarmentDefinition[] = [POLO_SHIRT];
+
+// Garments the picker lists but can't offer yet: their models haven't been delivered, so
+// there are no parts or print zones to define
+export interface PlannedGarment {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+export const PLANNED_GARMENTS: PlannedGarment[] = [
+  { id: 'crewTee', name: 'Crew Neck Tee', icon: '👚' },
+  { id: 'hoodie', name: 'Pullover Hoodie', icon: '🧥' },
+  { id: 'tank', name: 'Tank Top', icon: '🎽' },
+];
+
+export const DEFAULT_GARMENT = POLO_SHIRT;
+
+const SELECTED_GARMENT_KEY = 'selectedGarment';
+
+export function getGarment(id: string | null | undefined): GarmentDefinition {
+  return GARMENT_CATALOG.find((garment) => garment.id === id) ?? DEFAULT_GARMENT;
+}
+
+// The chosen base model is shared between the mockup page and the editor
+export function loadSelectedGarment(): GarmentDefinition {
+  try {
+    return getGarment(localStorage.getItem(SELECTED_GARMENT_KEY));
+  } catch {
+    return DEFAULT_GARMENT;
+  }
+}
+
+export function storeSelectedGarment(garment: GarmentDefinition) {
+  try {
+    localStorage.setItem(SELECTED_GARMENT_KEY, garment.id);
+  } catch (error) {
+    console.error('Error saving garment choice:', error);
+  }
+}
+
+function normalizeMeshName(name: string): string {
+  return name.toLowerCase().replace(/[\s_\-.]+/g, '');
+}
+
+export function getDefaultColors(garment: GarmentDefinition): GarmentColors {
+  return Object.fromEntries(garment.parts.map((part) => [part.id, part.defaultColor]));
+}
+
+// Every part set to one colour, for views with a single garment colour picker
+export function fillColors(garment: GarmentDefinition, color: string): GarmentColors {
+  return Object.fromEntries(garment.parts.map((part) => [part.id, color]));
+}
+
+export function isHiddenMesh(garment: GarmentDefinition, meshName: string): boolean {
+  const name = normalizeMeshName(meshName);
+  return garment.hiddenMeshes.some((hidden) => normalizeMeshName(hidden) === name);
+}
+
+// Part that owns a mesh; `matched` is false when it only fell back to the default part
+export function findPartForMesh(garment: GarmentDefinition, meshName: string): { part: GarmentPart; matched: boolean } {
+  const name = normalizeMeshName(meshName);
+  let best: GarmentPart | null = null;
+  let bestLength = 0;
+  for (const part of garment.parts) {
+    for (const mesh of part.meshes) {
+      const candidate = normalizeMeshName(mesh);
+      if (candidate.length > bestLength && name.includes(candidate)) {
+        best = part;
+        bestLength = candidate.length;
+      }
+    }
+  }
+  if (best) return { part: best, matched: true };
+  return { part: garment.parts.find((part) => part.id === garment.defaultPart) ?? garment.parts[0], matched: false };
+}
+
+export function findZoneForMesh(garment: GarmentDefinition, meshName: string): PrintZone | null {
+  const name = normalizeMeshName(meshName);
+  return garment.printZones.find((zone) => normalizeMeshName(zone.mesh) === name) ?? null;
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+
+// Reference-counted GPU resources keyed by their content. Holders asking for the same
+// content share one instance, and it is disposed when the last holder releases it.
+export interface ResourceCache<T> {
+  acquire(key: string, create: () => T): T;
+  release(resource: T): void;
+}
+
+export function createResourceCache<T>(dispose: (resource: T) => void): ResourceCache<T> {
+  const entries = new Map<string, { resource: T; refs: number }>();
+  const keys = new Map<T, string>();
+
+  return {
+    acquire(key, create) {
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { resource: create(), refs: 0 };
+        entries.set(key, entry);
+        keys.set(entry.resource, key);
+      }
+      entry.refs++;
+      return entry.resource;
+    },
+
+    release(resource) {
+      const key = keys.get(resource);
+      if (key === undefined) return;
+      const entry = entries.get(key)!;
+      if (--entry.refs > 0) return;
+      entries.delete(key);
+      keys.delete(resource);
+      dispose(resource);
+    },
+  };
+}
+
+const imageLoader = new THREE.ImageLoader();
+const textures = createResourceCache<THREE.Texture>((texture) => texture.dispose());
+const loadedTextures = new WeakMap<THREE.Texture, Promise<THREE.Texture>>();
+
+// Design and print images, shared by URL. The reference is held from this call on, even
+// while the image is still decoding, so release it whether or not it was ever used.
+// Data maps (bump, roughness) pass NoColorSpace so they are sampled as stored;
+// premultiplied images are for materials that undo it in their shader.
+export function acquireTexture(
+  url: string,
+  { flipY = true, colorSpace = THREE.SRGBColorSpace, premultiplyAlpha = false }: { flipY?: boolean; colorSpace?: THREE.ColorSpace; premultiplyAlpha?: boolean } = {}
+): THREE.Texture {
+  return textures.acquire(`${flipY ? 'flip' : 'gltf'}|${colorSpace}|${premultiplyAlpha ? 'premultiplied' : 'straight'}|${url}`, () => {
+    const texture = new THREE.Texture();
+    texture.colorSpace = colorSpace;
+    texture.flipY = flipY;
+    texture.premultiplyAlpha = premultiplyAlpha;
+    texture.anisotropy = 4;
+    loadedTextures.set(texture, new Promise((resolve, reject) => {
+      imageLoader.load(url, (image) => {
+        texture.image = image;
+        texture.needsUpdate = true;
+        resolve(texture);
+      }, undefined, reject);
+    }));
+    return texture;
+  });
+}
+
+export function releaseTexture(texture: THREE.Texture) {
+  textures.release(texture);
+}
+
+export function whenTextureLoaded(texture: THREE.Texture): Promise<THREE.Texture> {
+  return loadedTextures.get(texture) ?? Promise.resolve(texture);
+}
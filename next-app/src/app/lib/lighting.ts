@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+
+export type LightingRigId = 'softStudio' | 'highKey' | 'dramaticRim' | 'outdoorDaylight';
+
+export interface RigLight {
+  type: 'ambient' | 'hemisphere' | 'directional' | 'point';
+  color: string;
+  groundColor?: string; // hemisphere only
+  intensity: number;
+  position?: [number, number, number];
+}
+
+// A photographic setup: direct lights plus the environment that gives reflections and fill
+export interface LightingRig {
+  id: LightingRigId;
+  label: string;
+  icon: string;
+  description: string;
+  lights: RigLight[];
+  environmentIntensity: number;
+}
+
+// Where image-based lighting comes from: the environment built for the rig, or an
+// HDR/EXR panorama the user uploaded
+export type EnvironmentSource =
+  | { type: 'rig' }
+  | { type: 'file'; url: string; name: string; format: 'hdr' | 'exr' };
+
+export interface LightingSettings {
+  rig: LightingRigId;
+  intensity: number; // multiplier on the rig's lights
+  rotation: number; // degrees around the garment, turns lights and environment together
+  environment: EnvironmentSource;
+  environmentIntensity: number; // multiplier on the rig's environment strength
+}
+
+export const LIGHTING_RIGS: LightingRig[] = [
+  {
+    id: 'softStudio',
+    label: 'Soft Studio',
+    icon: '💡',
+    description: 'Even key and fill',
+    lights: [
+      { type: 'ambient', color: '#ffffff', intensity: 0.6 },
+      { type: 'directional', color: '#ffffff', intensity: 1.2, position: [5, 5, 5] },
+      { type: 'directional', color: '#ffffff', intensity: 0.8, position: [-5, 3, 2] },
+      { type: 'point', color: '#ffffff', intensity: 0.5, position: [0, 2, 3] },
+    ],
+    environmentIntensity: 0.5,
+  },
+  {
+    id: 'highKey',
+    label: 'High-Key',
+    icon: '🛍️',
+    description: 'Bright e-commerce white',
+    lights: [
+      { type: 'hemisphere', color: '#ffffff', groundColor: '#f1f5f9', intensity: 1.2 },
+      { type: 'directional', color: '#ffffff', intensity: 0.9, position: [0, 4, 6] },
+      { type: 'directional', color: '#ffffff', intensity: 0.6, position: [-6, 2, 3] },
+      { type: 'directional', color: '#ffffff', intensity: 0.6, position: [6, 2, 3] },
+    ],
+    environmentIntensity: 0.9,
+  },
+  {
+    id: 'dramaticRim',
+    label: 'Dramatic Rim',
+    icon: '🌗',
+    description: 'Low key, edge light',
+    lights: [
+      { type: 'ambient', color: '#ffffff', intensity: 0.1 },
+      { type: 'directional', color: '#fff4e6', intensity: 1.0, position: [4, 3, 4] },
+      { type: 'directional', color: '#dbeafe', intensity: 2.2, position: [-4, 2, -5] },
+      { type: 'directional', color: '#dbeafe', intensity: 1.6, position: [5, 1, -4] },
+    ],
+    environmentIntensity: 0.25,
+  },
+  {
+    id: 'outdoorDaylight',
+    label: 'Daylight',
+    icon: '☀️',
+    description: 'Sun and open sky',
+    lights: [
+      { type: 'hemisphere', color: '#bfdbfe', groundColor: '#a8a29e', intensity: 0.8 },
+      { type: 'directional', color: '#fff7e0', intensity: 2.0, position: [6, 8, 3] },
+    ],
+    environmentIntensity: 0.7,
+  },
+];
+
+export const DEFAULT_LIGHTING_SETTINGS: LightingSettings = {
+  rig: 'softStudio',
+  intensity: 1,
+  rotation: 0,
+  environment: { type: 'rig' },
+  environmentIntensity: 1,
+};
+
+export function getLightingRig(id: LightingRigId): LightingRig {
+  return LIGHTING_RIGS.find((rig) => rig.id === id) ?? LIGHTING_RIGS[0];
+}
+
+// Emissive panel for the environment rooms; brightness above 1 is what lights the garment
+function addPanel(scene: THREE.Scene, brightness: number, size: [number, number], position: [number, number, number], color = '#ffffff') {
+  const material = new THREE.MeshBasicMaterial({ color: new THREE.Color(color).multiplyScalar(brightness), side: THREE.DoubleSide });
+  const panel = new THREE.Mesh(new THREE.PlaneGeometry(...size), material);
+  panel.position.set(...position);
+  panel.lookAt(0, 0, 0);
+  scene.add(panel);
+}
+
+function createRoom(color: string): THREE.Scene {
+  const scene = new THREE.Scene();
+  const room = new THREE.Mesh(
+    new THREE.SphereGeometry(20, 32, 16),
+    new THREE.MeshBasicMaterial({ color, side: THREE.BackSide })
+  );
+  scene.add(room);
+  return scene;
+}
+
+function createSkyDome(): THREE.Scene {
+  const scene = new THREE.Scene();
+  const geometry = new THREE.SphereGeometry(20, 32, 16);
+  // Horizon-to-zenith gradient in vertex colours, darker ground below
+  const zenith = new THREE.Color('#4a90d9');
+  const horizon = new THREE.Color('#dbeafe');
+  const ground = new THREE.Color('#57534e');
+  const colors: number[] = [];
+  const position = geometry.attributes.position;
+  const color = new THREE.Color();
+  for (let i = 0; i < position.count; i++) {
+    const height = position.getY(i) / 20;
+    if (height >= 0) color.lerpColors(horizon, zenith, Math.pow(height, 0.6));
+    else color.lerpColors(horizon, ground, Math.min(1, -height * 4));
+    colors.push(color.r, color.g, color.b);
+  }
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  scene.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.BackSide })));
+
+  const sun = new THREE.Mesh(
+    new THREE.SphereGeometry(1.2, 16, 8),
+    new THREE.MeshBasicMaterial({ color: new THREE.Color('#fff7e0').multiplyScalar(40) })
+  );
+  sun.position.set(9, 12, 4.5);
+  scene.add(sun);
+  return scene;
+}
+
+// The environment each rig is photographed in. No HDR/EXR panoramas are bundled: the rigs
+// build theirs procedurally and work offline, and uploads cover anything more specific.
+function createRigEnvironment(id: LightingRigId): THREE.Scene {
+  switch (id) {
+    case 'highKey': {
+      const scene = createRoom('#f8fafc');
+      addPanel(scene, 6, [10, 6], [0, 4, 10]);
+      addPanel(scene, 4, [6, 10], [-10, 1, 4]);
+      addPanel(scene, 4, [6, 10], [10, 1, 4]);
+      addPanel(scene, 3, [12, 12], [0, 14, 0]);
+      return scene;
+    }
+
+    case 'dramaticRim': {
+      const scene = createRoom('#050505');
+      addPanel(scene, 12, [1.2, 12], [-8, 2, -9], '#dbeafe');
+      addPanel(scene, 10, [1.2, 12], [9, 1, -8], '#dbeafe');
+      addPanel(scene, 3, [4, 4], [7, 6, 7], '#fff4e6');
+      return scene;
+    }
+
+    case 'outdoorDaylight':
+      return createSkyDome();
+
+    case 'softStudio':
+    default:
+      return new RoomEnvironment();
+  }
+}
+
+export function createRigEnvironmentMap(pmrem: THREE.PMREMGenerator, id: LightingRigId): THREE.Texture {
+  const environment = createRigEnvironment(id);
+  const envMap = pmrem.fromScene(environment, 0.04).texture;
+  environment.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+  return envMap;
+}
+
+// Uploaded panoramas, as an equirectangular texture ready for PMREM
+export function loadEnvironmentFile(url: string, format: 'hdr' | 'exr'): Promise<THREE.DataTexture> {
+  const loader = format === 'exr' ? new EXRLoader() : new HDRLoader();
+  return loader.loadAsync(url).then((texture) => {
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    return texture;
+  });
+}
+
+export function getEnvironmentFormat(file: File): 'hdr' | 'exr' | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.hdr')) return 'hdr';
+  if (name.endsWith('.exr')) return 'exr';
+  return null;
+}
@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+import { getZoneFrame } from './decalPlacement';
+import { findPartForMesh, findZoneForMesh, isHiddenMesh, type GarmentDefinition, type PrintZoneId } from './garments';
+
+export interface MeshReport {
+  mesh: THREE.Mesh;
+  name: string;
+  materials: string[]; // as authored in the file, not the fabric materials applied at runtime
+  vertexCount: number;
+  triangleCount: number;
+  uvSets: string[];
+  size: THREE.Vector3; // bounding box extents in model space
+  partId: string | null;
+  zoneId: PrintZoneId | null;
+  hidden: boolean;
+  unmatched: boolean; // claimed by no part or zone, so it silently falls back to the default part
+  uvLayout: UvLayoutCheck | null; // print zone meshes only
+}
+
+// How a zone's UV layout sits against the panel seen straight on. UV Exact fits the design
+// upright into the bounds of all the zone's islands, which only lands true on one island
+// laid out upright, unmirrored and evenly scaled.
+export interface UvLayoutCheck {
+  islands: number;
+  rotation: number; // degrees the panel's right-hand side is turned from +u
+  mirrored: boolean;
+  stretch: number; // horizontal over vertical scale of the unwrap, 1 when even
+}
+
+export interface ModelReport {
+  modelPath: string;
+  meshes: MeshReport[];
+  totalVertices: number;
+  totalTriangles: number;
+  missingZones: PrintZoneId[]; // zones the garment declares but the file has no mesh for
+}
+
+// Remember what the file authored before the garment materials replace it
+export function rememberSourceMaterial(mesh: THREE.Mesh) {
+  if (mesh.userData.sourceMaterials) return;
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  mesh.userData.sourceMaterials = materials.map((material) => material.name || material.type);
+}
+
+export function inspectModel(scene: THREE.Object3D, garment: GarmentDefinition): ModelReport {
+  const meshes: MeshReport[] = [];
+  scene.updateWorldMatrix(true, true);
+  const toModel = scene.matrixWorld.clone().invert();
+
+  scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || child.userData.isDesignDecal) return;
+    rememberSourceMaterial(child);
+
+    const geometry = child.geometry as THREE.BufferGeometry;
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!.clone().applyMatrix4(toModel.clone().multiply(child.matrixWorld));
+    const vertexCount = geometry.attributes.position?.count ?? 0;
+    const hidden = isHiddenMesh(garment, child.name);
+    const zone = findZoneForMesh(garment, child.name);
+    const { part, matched } = findPartForMesh(garment, child.name);
+    const hasUv = !!geometry.attributes.uv;
+
+    meshes.push({
+      mesh: child,
+      name: child.name || '(unnamed)',
+      materials: child.userData.sourceMaterials,
+      vertexCount,
+      triangleCount: (geometry.index ? geometry.index.count : vertexCount) / 3,
+      uvSets: Object.keys(geometry.attributes).filter((name) => /^uv\d*$/.test(name)),
+      size: box.getSize(new THREE.Vector3()),
+      partId: hidden ? null : part.id,
+      zoneId: zone?.id ?? null,
+      hidden,
+      unmatched: !hidden && !zone && !matched,
+      uvLayout: zone && hasUv ? checkUvLayout(child) : null,
+    });
+  });
+
+  return {
+    modelPath: garment.modelPath,
+    meshes,
+    totalVertices: meshes.reduce((sum, mesh) => sum + mesh.vertexCount, 0),
+    totalTriangles: meshes.reduce((sum, mesh) => sum + mesh.triangleCount, 0),
+    missingZones: garment.printZones
+      .filter((zone) => !meshes.some((mesh) => mesh.zoneId === zone.id))
+      .map((zone) => zone.id),
+  };
+}
+
+// Islands are triangles joined through shared UV coordinates, so seams split them
+function countUvIslands(uv: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, index: THREE.BufferAttribute | null) {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+  const count = index ? index.count : uv.count;
+  for (let i = 0; i + 2 < count; i += 3) {
+    const keys = [0, 1, 2].map((corner) => {
+      const vertex = index ? index.getX(i + corner) : i + corner;
+      const key = `${uv.getX(vertex).toFixed(5)},${uv.getY(vertex).toFixed(5)}`;
+      if (!parent.has(key)) parent.set(key, key);
+      return key;
+    });
+    parent.set(find(keys[1]), find(keys[0]));
+    parent.set(find(keys[2]), find(keys[0]));
+  }
+  return new Set([...parent.keys()].map(find)).size;
+}
+
+// Average the unwrap's local mapping from the panel (garment-right, garment-up) to UV over
+// the triangles facing out of the panel, weighted by how much of the panel each one covers
+export function checkUvLayout(mesh: THREE.Mesh): UvLayoutCheck | null {
+  const geometry = mesh.geometry as THREE.BufferGeometry;
+  const position = geometry.attributes.position;
+  const uv = geometry.attributes.uv;
+  if (!position || !uv) return null;
+  const index = geometry.index;
+  const count = index ? index.count : position.count;
+  const frame = getZoneFrame(mesh);
+
+  const point = new THREE.Vector3();
+  const panel = (vertex: number) => {
+    point.fromBufferAttribute(position, vertex).sub(frame.center);
+    return [point.dot(frame.right), point.dot(frame.up)];
+  };
+
+  // u = a·right + b·up, v = c·right + d·up
+  let a = 0;
+  let b = 0;
+  let c = 0;
+  let d = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    const [v0, v1, v2] = [0, 1, 2].map((corner) => (index ? index.getX(i + corner) : i + corner));
+    const [r0, h0] = panel(v0);
+    const [r1, h1] = panel(v1);
+    const [r2, h2] = panel(v2);
+    const [e1r, e1h, e2r, e2h] = [r1 - r0, h1 - h0, r2 - r0, h2 - h0];
+    const area = e1r * e2h - e1h * e2r;
+    if (area <= 1e-12) continue; // faces away from the panel, or edge on
+
+    const [f1u, f1v] = [uv.getX(v1) - uv.getX(v0), uv.getY(v1) - uv.getY(v0)];
+    const [f2u, f2v] = [uv.getX(v2) - uv.getX(v0), uv.getY(v2) - uv.getY(v0)];
+    // Triangle's mapping times its area, which cancels the inverse's 1/area
+    a += f1u * e2h - f2u * e1h;
+    b += f2u * e1r - f1u * e2r;
+    c += f1v * e2h - f2v * e1h;
+    d += f2v * e1r - f1v * e2r;
+  }
+  if (a === 0 && b === 0 && c === 0 && d === 0) return null;
+
+  // v runs down the image, so upright is +right → +u and +up → −v, a negative determinant
+  return {
+    islands: countUvIslands(uv, index),
+    rotation: THREE.MathUtils.radToDeg(Math.atan2(c, a)),
+    mirrored: a * d - b * c > 0,
+    stretch: Math.hypot(a, c) / Math.hypot(b, d),
+  };
+}
+
+const UV_ROTATION_TOLERANCE = 10; // degrees
+const UV_STRETCH_TOLERANCE = 0.15;
+
+// What breaks the upright fit, in words; empty when the layout suits UV Exact
+export function describeUvLayoutIssues(check: UvLayoutCheck): string[] {
+  const issues: string[] = [];
+  if (check.islands > 1) issues.push(`${check.islands} islands`);
+  if (Math.abs(check.rotation) > UV_ROTATION_TOLERANCE) issues.push(`rotated ${Math.round(check.rotation)}°`);
+  if (check.mirrored) issues.push('mirrored');
+  if (Math.abs(check.stretch - 1) > UV_STRETCH_TOLERANCE) issues.push(`stretched ${check.stretch.toFixed(2)}:1`);
+  return issues;
+}
+
+// Wireframe of the mesh's first UV set in image space (glTF convention: v runs down)
+export function drawUvLayout(ctx: CanvasRenderingContext2D, geometry: THREE.BufferGeometry, color = '#ec4899') {
+  const { width, height } = ctx.canvas;
+  const uv = geometry.attributes.uv;
+  if (!uv) return;
+  const index = geometry.index;
+  const count = index ? index.count : uv.count;
+  const at = (i: number) => (index ? index.getX(i) : i);
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 0.5;
+  ctx.beginPath();
+  for (let i = 0; i + 2 < count; i += 3) {
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = at(i + corner);
+      const x = uv.getX(vertex) * width;
+      const y = uv.getY(vertex) * height;
+      if (corner === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+  }
+  ctx.stroke();
+  ctx.restore();
+}
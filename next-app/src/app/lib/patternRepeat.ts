@@ -0,0 +1,106 @@
+export type RepeatMode = 'grid' | 'halfDrop' | 'brick' | 'mirror';
+
+export interface PatternMotif {
+  id: string;
+  src: string;
+  x: number; // 0..1 across the tile
+  y: number; // 0..1 down the tile
+  scale: number; // motif width as a fraction of the tile
+  rotation: number; // degrees
+}
+
+export interface PatternDesign {
+  id: string;
+  name: string;
+  repeatMode: RepeatMode;
+  background: string | null; // null keeps the tile transparent so the garment colour shows
+  motifs: PatternMotif[];
+}
+
+const SAVED_PATTERNS_KEY = 'savedPatterns';
+
+export function loadSavedPatterns(): PatternDesign[] {
+  try {
+    const saved = localStorage.getItem(SAVED_PATTERNS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading saved patterns:', error);
+    return [];
+  }
+}
+
+export function storeSavedPatterns(patterns: PatternDesign[]) {
+  try {
+    localStorage.setItem(SAVED_PATTERNS_KEY, JSON.stringify(patterns));
+  } catch (error) {
+    // Motifs are stored as data URLs, so a large library can exceed the storage quota
+    console.error('Error saving patterns:', error);
+  }
+}
+
+function drawMotif(ctx: CanvasRenderingContext2D, image: HTMLImageElement, motif: PatternMotif, x: number, y: number, size: number) {
+  const width = motif.scale * size;
+  const height = width * (image.height / image.width || 1);
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate((motif.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  ctx.restore();
+}
+
+// One seamless tile: motifs that hang over an edge re-enter on the opposite side
+export function renderPatternTile(
+  ctx: CanvasRenderingContext2D,
+  design: PatternDesign,
+  images: Map<string, HTMLImageElement>,
+  size: number
+) {
+  ctx.clearRect(0, 0, size, size);
+  if (design.background) {
+    ctx.fillStyle = design.background;
+    ctx.fillRect(0, 0, size, size);
+  }
+
+  for (const motif of design.motifs) {
+    const image = images.get(motif.src);
+    if (!image) continue;
+    for (const ox of [-size, 0, size]) {
+      for (const oy of [-size, 0, size]) {
+        drawMotif(ctx, image, motif, motif.x * size + ox, motif.y * size + oy, size);
+      }
+    }
+  }
+}
+
+// Lay the tile out as a 2×2 repeat unit. Every mode is periodic over two tiles in
+// both directions, so the unit is square and tiles cleanly on the garment UVs.
+export function renderPatternRepeat(tile: HTMLCanvasElement, mode: RepeatMode, unitSize = 1024): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = unitSize;
+  canvas.height = unitSize;
+  const ctx = canvas.getContext('2d')!;
+  const t = unitSize / 2;
+
+  for (let col = -1; col <= 2; col++) {
+    for (let row = -1; row <= 2; row++) {
+      let x = col * t;
+      let y = row * t;
+      if (mode === 'halfDrop' && Math.abs(col % 2) === 1) y += t / 2;
+      if (mode === 'brick' && Math.abs(row % 2) === 1) x += t / 2;
+
+      ctx.save();
+      if (mode === 'mirror') {
+        const flipX = Math.abs(col % 2) === 1;
+        const flipY = Math.abs(row % 2) === 1;
+        ctx.translate(x + (flipX ? t : 0), y + (flipY ? t : 0));
+        ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+        ctx.drawImage(tile, 0, 0, t, t);
+      } else {
+        ctx.drawImage(tile, x, y, t, t);
+      }
+      ctx.restore();
+    }
+  }
+
+  return canvas;
+}
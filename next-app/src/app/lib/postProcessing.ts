@@ -0,0 +1,58 @@
+export type PostEffectId = 'ambientOcclusion' | 'depthOfField' | 'bloom' | 'vignette';
+
+export interface PostEffectSettings {
+  enabled: boolean;
+  amount: number; // 0-1, mapped onto each effect's own range
+}
+
+export interface PostProcessingSettings {
+  enabled: boolean;
+  effects: Record<PostEffectId, PostEffectSettings>;
+}
+
+export const POST_EFFECTS: { id: PostEffectId; label: string; description: string }[] = [
+  { id: 'ambientOcclusion', label: 'Ambient Occlusion', description: 'Shades folds and seams' },
+  { id: 'depthOfField', label: 'Depth of Field', description: 'Blurs the backdrop' },
+  { id: 'bloom', label: 'Bloom', description: 'Glow on metallic highlights' },
+  { id: 'vignette', label: 'Vignette', description: 'Darkens the corners' },
+];
+
+export const DEFAULT_POST_PROCESSING: PostProcessingSettings = {
+  enabled: false,
+  effects: {
+    ambientOcclusion: { enabled: true, amount: 0.6 },
+    depthOfField: { enabled: false, amount: 0.4 },
+    bloom: { enabled: false, amount: 0.3 },
+    vignette: { enabled: true, amount: 0.4 },
+  },
+};
+
+export function hasActiveEffects(settings: PostProcessingSettings) {
+  return settings.enabled && Object.values(settings.effects).some((effect) => effect.enabled);
+}
+
+// Saved alongside the rest of the design on the mockup page
+const DESIGN_KEY = 'tshirtDesign';
+
+export function loadPostProcessing(): PostProcessingSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DESIGN_KEY) || '{}').postProcessing;
+    if (!saved) return DEFAULT_POST_PROCESSING;
+    // Effects added since the design was saved start from their defaults
+    return {
+      enabled: !!saved.enabled,
+      effects: { ...DEFAULT_POST_PROCESSING.effects, ...saved.effects },
+    };
+  } catch {
+    return DEFAULT_POST_PROCESSING;
+  }
+}
+
+export function storePostProcessing(settings: PostProcessingSettings) {
+  try {
+    const design = JSON.parse(localStorage.getItem(DESIGN_KEY) || '{}');
+    localStorage.setItem(DESIGN_KEY, JSON.stringify({ ...design, postProcessing: settings }));
+  } catch (error) {
+    console.error('Error saving post-processing settings:', error);
+  }
+}
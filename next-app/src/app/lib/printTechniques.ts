@@ -0,0 +1,279 @@
+import * as THREE from 'three';
+import { drawZoneLayer, loadZoneLayerImages, type ZoneLayer } from './zoneLayers';
+
+export type PrintTechnique = 'screenPrint' | 'dtg' | 'embroidery' | 'vinyl';
+
+// Specialty inks on top of the decoration method, like the garment-wide
+// TextureSettings.finish but per design layer
+export type InkEffect = 'none' | 'foil' | 'puff' | 'glitter' | 'reflective' | 'glow';
+
+// How a layer sits on the fabric in the 3D view. Values are 0-1: relief is the raised
+// height, soak how much of the fabric shows through the ink, glitter, reflective and
+// glow the strength of those inks.
+interface SurfaceProperties {
+  relief: number;
+  roughness: number;
+  metalness: number;
+  soak: number;
+  glitter: number;
+  reflective: number;
+  glow: number;
+  stitched?: boolean; // satin-stitch rows in the relief
+  rounded?: boolean; // relief swells from soft edges instead of a cut one
+}
+
+const FLAT_INK: SurfaceProperties = { relief: 0, roughness: 0.6, metalness: 0, soak: 0, glitter: 0, reflective: 0, glow: 0 };
+
+export interface PrintTechniqueInfo {
+  value: PrintTechnique;
+  label: string;
+  description: string;
+  surface: SurfaceProperties;
+  inkOpacity: number; // how much of the garment colour the ink hides on its own, 0-1
+}
+
+export const PRINT_TECHNIQUES: PrintTechniqueInfo[] = [
+  { value: 'screenPrint', label: 'Screen Print', description: 'Crisp, opaque ink film', surface: { ...FLAT_INK, relief: 0.08 }, inkOpacity: 0.7 },
+  { value: 'dtg', label: 'DTG', description: 'Ink soaked into the weave', surface: { ...FLAT_INK, roughness: 0.95, soak: 0.3 }, inkOpacity: 0.5 },
+  { value: 'embroidery', label: 'Embroidery', description: 'Raised stitched thread', surface: { ...FLAT_INK, relief: 1, roughness: 0.55, stitched: true }, inkOpacity: 1 },
+  { value: 'vinyl', label: 'Vinyl', description: 'Glossy film with a cut edge', surface: { ...FLAT_INK, relief: 0.3, roughness: 0.25 }, inkOpacity: 1 },
+];
+
+export interface InkEffectInfo {
+  value: InkEffect;
+  label: string;
+  description: string;
+  surface: Partial<SurfaceProperties>; // overrides the technique's
+  inkOpacity?: number; // likewise
+}
+
+export const INK_EFFECTS: InkEffectInfo[] = [
+  { value: 'none', label: 'None', description: 'Standard ink', surface: {} },
+  { value: 'foil', label: 'Foil', description: 'Mirror metal, reflects the room', surface: { metalness: 1, roughness: 0.18, soak: 0 }, inkOpacity: 1 },
+  { value: 'puff', label: 'Puff', description: 'Swells up off the fabric', surface: { relief: 0.8, roughness: 0.85, soak: 0, rounded: true }, inkOpacity: 0.85 },
+  { value: 'glitter', label: 'Glitter', description: 'Flakes sparkle as it turns', surface: { glitter: 1, metalness: 0.4, roughness: 0.35, soak: 0 } },
+  { value: 'reflective', label: 'Reflective', description: 'Brightens toward the light', surface: { reflective: 1, roughness: 0.45, soak: 0 }, inkOpacity: 1 },
+  { value: 'glow', label: 'Glow', description: 'Glows in the dark', surface: { glow: 1, soak: 0 }, inkOpacity: 0.4 },
+];
+
+export function getPrintTechnique(value: PrintTechnique): PrintTechniqueInfo {
+  return PRINT_TECHNIQUES.find((technique) => technique.value === value) ?? PRINT_TECHNIQUES[0];
+}
+
+export function getInkEffect(value: InkEffect): InkEffectInfo {
+  return INK_EFFECTS.find((effect) => effect.value === value) ?? INK_EFFECTS[0];
+}
+
+function getLayerSurface(layer: ZoneLayer): SurfaceProperties {
+  return { ...getPrintTechnique(layer.technique).surface, ...getInkEffect(layer.inkEffect).surface };
+}
+
+// Below 1 the garment colour shows through the ink unless a white underbase goes down first
+export function getLayerInkOpacity(layer: ZoneLayer): number {
+  return getInkEffect(layer.inkEffect).inkOpacity ?? getPrintTechnique(layer.technique).inkOpacity;
+}
+
+export const GLOW_COLOR = '#a3ff8f'; // phosphor green
+export const GLOW_PREVIEW_DIM = 0.06; // lights and backdrop while previewing glow ink
+export const GLOW_PREVIEW_INTENSITY = 1.5;
+
+// The maps that go under a zone's flattened artwork, pixel for pixel:
+// - surface: relief in red (a bump map), roughness in green and metalness in blue,
+//   where three reads them from
+// - ink: soak in red, glitter in green, reflective in blue (see applyPrintSurface)
+// - glow: the emissive colour, only when a layer uses glow ink
+export interface PrintSurfaceMaps {
+  surface: string;
+  ink: string;
+  glow?: string;
+}
+
+type SurfaceMapId = keyof PrintSurfaceMaps;
+
+// Where nothing is printed the maps read as flat ink, so soft edges don't turn glossy
+const toByte = (value: number) => Math.round(value * 255);
+const rgb = (r: number, g: number, b: number) => `rgb(${toByte(r)}, ${toByte(g)}, ${toByte(b)})`;
+
+const MAP_FILLS: Record<SurfaceMapId, (surface: SurfaceProperties) => string> = {
+  surface: (surface) => rgb(surface.relief, surface.roughness, surface.metalness),
+  ink: (surface) => rgb(surface.soak, surface.glitter, surface.reflective),
+  glow: (surface) => (surface.glow > 0 ? GLOW_COLOR : '#000000'),
+};
+
+const STITCH_PERIOD = 8; // px at 1024 wide, one satin-stitch thread
+const PUFF_SOFTNESS = 3; // px at 1024 wide
+
+// Diagonal satin-stitch rows: each thread is rounded, highest along its middle
+function createStitchPattern(ctx: CanvasRenderingContext2D, surface: SurfaceProperties, period: number) {
+  const tile = document.createElement('canvas');
+  tile.width = period;
+  tile.height = period;
+  const tileCtx = tile.getContext('2d')!;
+  const pixels = tileCtx.createImageData(period, period);
+  for (let y = 0; y < period; y++) {
+    for (let x = 0; x < period; x++) {
+      const across = ((x + y) % period) / period;
+      const height = surface.relief * (0.55 + 0.45 * Math.sin(across * Math.PI));
+      const i = (y * period + x) * 4;
+      pixels.data[i] = toByte(height);
+      pixels.data[i + 1] = toByte(surface.roughness);
+      pixels.data[i + 2] = toByte(surface.metalness);
+      pixels.data[i + 3] = 255;
+    }
+  }
+  tileCtx.putImageData(pixels, 0, 0);
+  return ctx.createPattern(tile, 'repeat')!;
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function drawZoneSurface(
+  targets: Partial<Record<SurfaceMapId, CanvasRenderingContext2D>>,
+  layers: ZoneLayer[],
+  images: Map<string, HTMLImageElement>,
+  zoneWidth: number,
+  width: number,
+  height: number
+) {
+  const pixelScale = width / zoneWidth;
+  const maps = Object.entries(targets) as [SurfaceMapId, CanvasRenderingContext2D][];
+  maps.forEach(([id, ctx]) => {
+    ctx.fillStyle = MAP_FILLS[id](FLAT_INK);
+    ctx.fillRect(0, 0, width, height);
+  });
+
+  // Each layer's silhouette is filled with its properties, then laid over the ones below
+  const silhouette = createCanvas(width, height);
+  const silhouetteCtx = silhouette.getContext('2d')!;
+  const tinted = createCanvas(width, height);
+  const tintedCtx = tinted.getContext('2d')!;
+
+  for (const layer of layers) {
+    const image = images.get(layer.id);
+    if (!layer.visible || layer.opacity <= 0 || (!layer.text && !image)) continue;
+    const surface = getLayerSurface(layer);
+
+    silhouetteCtx.save();
+    silhouetteCtx.clearRect(0, 0, width, height);
+    silhouetteCtx.globalAlpha = layer.opacity;
+    drawZoneLayer(silhouetteCtx, layer, image, pixelScale);
+    silhouetteCtx.restore();
+
+    maps.forEach(([id, ctx]) => {
+      tintedCtx.save();
+      tintedCtx.clearRect(0, 0, width, height);
+      // Puff ink rises from its edge instead of stepping up, on the relief only
+      if (id === 'surface' && surface.rounded) tintedCtx.filter = `blur(${(PUFF_SOFTNESS * width) / 1024}px)`;
+      tintedCtx.drawImage(silhouette, 0, 0);
+      tintedCtx.filter = 'none';
+      tintedCtx.globalCompositeOperation = 'source-in';
+      tintedCtx.fillStyle = id === 'surface' && surface.stitched
+        ? createStitchPattern(tintedCtx, surface, Math.max(2, Math.round((STITCH_PERIOD * width) / 1024)))
+        : MAP_FILLS[id](surface);
+      tintedCtx.fillRect(0, 0, width, height);
+      tintedCtx.restore();
+      ctx.drawImage(tinted, 0, 0);
+    });
+  }
+}
+
+// The surface maps for a zone's stack, at the size flattenZoneLayers renders the 3D texture.
+// Returns null when nothing in the stack is visible.
+export async function flattenZoneSurface(
+  layers: ZoneLayer[],
+  zoneSize: { width: number; height: number },
+  outputWidth = 1024
+): Promise<PrintSurfaceMaps | null> {
+  const visibleLayers = layers.filter((layer) => layer.visible && layer.opacity > 0);
+  if (visibleLayers.length === 0) return null;
+
+  const images = await loadZoneLayerImages(visibleLayers, outputWidth);
+  const width = outputWidth;
+  const height = Math.round(outputWidth * (zoneSize.height / zoneSize.width));
+  const canvases: Partial<Record<SurfaceMapId, HTMLCanvasElement>> = {
+    surface: createCanvas(width, height),
+    ink: createCanvas(width, height),
+  };
+  if (visibleLayers.some((layer) => layer.inkEffect === 'glow')) canvases.glow = createCanvas(width, height);
+
+  drawZoneSurface(
+    Object.fromEntries(Object.entries(canvases).map(([id, canvas]) => [id, canvas.getContext('2d')!])),
+    visibleLayers,
+    images,
+    zoneSize.width,
+    width,
+    height
+  );
+
+  return {
+    surface: canvases.surface!.toDataURL('image/png'),
+    ink: canvases.ink!.toDataURL('image/png'),
+    glow: canvases.glow?.toDataURL('image/png'),
+  };
+}
+
+// Relief, gloss and metal come straight from the bump, roughness and metalness maps and
+// glow from the emissive map (off until the glow preview turns it up). The ink map needs
+// shader code: soak thins the ink so the fabric shows through, glitter adds view-dependent
+// flake glints, and reflective ink bounces the key lights back toward the camera.
+export function applyPrintSurface(
+  material: THREE.MeshStandardMaterial,
+  { surface, ink, glow }: { surface: THREE.Texture; ink: THREE.Texture; glow: THREE.Texture | null }
+) {
+  material.bumpMap = surface;
+  material.bumpScale = 1;
+  material.roughnessMap = surface;
+  material.roughness = 1;
+  material.metalnessMap = surface;
+  material.metalness = 1;
+  if (glow) {
+    material.emissiveMap = glow;
+    material.emissive.set('#ffffff');
+    material.emissiveIntensity = 0;
+  }
+
+  // On top of whatever the print material already does to its shader
+  const baseShader = material.onBeforeCompile;
+  material.onBeforeCompile = (shader, renderer) => {
+    baseShader.call(material, shader, renderer);
+    shader.uniforms.inkMap = { value: ink };
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <common>',
+        `#include <common>
+        uniform sampler2D inkMap;`
+      )
+      .replace(
+        '#include <alphamap_fragment>',
+        `#include <alphamap_fragment>
+        vec3 inkEffects = texture2D( inkMap, vRoughnessMapUv ).rgb;
+        diffuseColor.a *= 1.0 - inkEffects.r;
+        diffuseColor.rgb *= 1.0 - 0.25 * inkEffects.r;`
+      )
+      .replace(
+        '#include <aomap_fragment>',
+        `vec2 flakeCell = floor( vRoughnessMapUv * 320.0 );
+        vec3 flake = fract( sin( vec3(
+          dot( flakeCell, vec2( 127.1, 311.7 ) ),
+          dot( flakeCell, vec2( 269.5, 183.3 ) ),
+          dot( flakeCell, vec2( 419.2, 371.9 ) )
+        ) ) * 43758.5453 ) * 2.0 - 1.0;
+        float glint = pow( max( dot( normalize( normal + flake * 0.8 ), geometryViewDir ), 0.0 ), 60.0 );
+        reflectedLight.directSpecular += ( reflectedLight.directDiffuse + reflectedLight.indirectDiffuse ) * inkEffects.g * glint * 6.0;
+        #if NUM_DIR_LIGHTS > 0
+          for ( int i = 0; i < NUM_DIR_LIGHTS; i ++ ) {
+            float towardLight = max( dot( directionalLights[ i ].direction, geometryViewDir ), 0.0 );
+            reflectedLight.directSpecular += inkEffects.b * directionalLights[ i ].color * pow( towardLight, 8.0 ) * 0.6;
+          }
+        #endif
+        #include <aomap_fragment>`
+      );
+  };
+  material.customProgramCacheKey = () => 'print-surface';
+  material.needsUpdate = true;
+}
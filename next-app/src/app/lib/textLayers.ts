@@ -0,0 +1,141 @@
+export type TextWarp = 'none' | 'arc' | 'circle' | 'wave';
+
+// Editable text kept on a zone layer and re-rendered whenever the zone is drawn,
+// so it is always rasterised at the resolution of the canvas it lands on.
+// Sizes are in zone container pixels, like the layer offsets.
+export interface TextLayerSettings {
+  content: string;
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  letterSpacing: number;
+  fill: string;
+  outlineColor: string;
+  outlineWidth: number; // 0 disables the outline
+  warp: TextWarp;
+  warpAmount: number; // arc: bend -100..100, wave: height as % of the font size
+}
+
+export const TEXT_FONTS = [
+  'Arial',
+  'Helvetica',
+  'Impact',
+  'Georgia',
+  'Times New Roman',
+  'Courier New',
+  'Verdana',
+  'Trebuchet MS',
+  'Comic Sans MS',
+];
+
+export const TEXT_WEIGHTS = [
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 600, label: 'Semibold' },
+  { value: 700, label: 'Bold' },
+  { value: 900, label: 'Black' },
+];
+
+export const DEFAULT_TEXT_SETTINGS: TextLayerSettings = {
+  content: 'YOUR TEXT',
+  fontFamily: 'Impact',
+  fontWeight: 700,
+  fontSize: 28,
+  letterSpacing: 2,
+  fill: '#111827',
+  outlineColor: '#ffffff',
+  outlineWidth: 0,
+  warp: 'none',
+  warpAmount: 50,
+};
+
+interface Glyph {
+  char: string;
+  x: number; // centre of the glyph along the straight baseline
+  y: number;
+  angle: number;
+}
+
+// Lay the string out glyph by glyph so letter spacing and warps apply per character
+function layoutGlyphs(ctx: CanvasRenderingContext2D, text: TextLayerSettings, size: number, spacing: number): Glyph[] {
+  const chars = Array.from(text.content);
+  const widths = chars.map((char) => ctx.measureText(char).width);
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0) + spacing * Math.max(0, chars.length - 1);
+
+  let cursor = -totalWidth / 2;
+  const glyphs = chars.map((char, i) => {
+    const x = cursor + widths[i] / 2;
+    cursor += widths[i] + spacing;
+    return { char, x, y: 0, angle: 0 };
+  });
+
+  if (text.warp === 'arc' || text.warp === 'circle') {
+    // Wrap the baseline around a circle; a circle uses the whole 360° for the text
+    const span = text.warp === 'circle'
+      ? Math.PI * 2
+      : (Math.max(-100, Math.min(100, text.warpAmount)) / 100) * Math.PI;
+    if (Math.abs(span) < 1e-3 || totalWidth === 0) return glyphs;
+
+    const radius = totalWidth / span;
+    return glyphs.map((glyph) => {
+      const theta = glyph.x / radius;
+      return {
+        ...glyph,
+        x: radius * Math.sin(theta),
+        y: radius - radius * Math.cos(theta),
+        angle: theta,
+      };
+    });
+  }
+
+  if (text.warp === 'wave' && totalWidth > 0) {
+    const amplitude = (text.warpAmount / 100) * size;
+    const k = (Math.PI * 2) / totalWidth;
+    return glyphs.map((glyph) => ({
+      ...glyph,
+      y: Math.sin(glyph.x * k) * amplitude,
+      angle: Math.atan(Math.cos(glyph.x * k) * amplitude * k),
+    }));
+  }
+
+  return glyphs;
+}
+
+// Draw the text centred on the current origin. `pixelScale` converts container
+// pixels to canvas pixels, so the same layer renders sharp at any output size.
+export function drawTextLayer(ctx: CanvasRenderingContext2D, text: TextLayerSettings, pixelScale: number) {
+  if (!text.content) return;
+
+  const size = text.fontSize * pixelScale;
+  ctx.save();
+  ctx.font = `${text.fontWeight} ${size}px "${text.fontFamily}", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const glyphs = layoutGlyphs(ctx, text, size, text.letterSpacing * pixelScale);
+  // Centre the warped block vertically so arcs don't drift away from the layer origin
+  const ys = glyphs.map((glyph) => glyph.y);
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+  const outline = text.outlineWidth * pixelScale;
+  for (const pass of outline > 0 ? ['stroke', 'fill'] : ['fill']) {
+    for (const glyph of glyphs) {
+      ctx.save();
+      ctx.translate(glyph.x, glyph.y - centerY);
+      ctx.rotate(glyph.angle);
+      if (pass === 'stroke') {
+        // Stroke is centred on the glyph edge, so double it to get the visible width
+        ctx.strokeStyle = text.outlineColor;
+        ctx.lineWidth = outline * 2;
+        ctx.strokeText(glyph.char, 0, 0);
+      } else {
+        ctx.fillStyle = text.fill;
+        ctx.fillText(glyph.char, 0, 0);
+      }
+      ctx.restore();
+    }
+  }
+
+  ctx.restore();
+}
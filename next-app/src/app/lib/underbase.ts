@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import { drawZoneLayer, drawZoneLayers, loadZoneLayerImages, type ZoneLayer } from './zoneLayers';
+import { getLayerInkOpacity } from './printTechniques';
+
+// How a zone's inks are shown against the garment colour. Off, the 3D view shows the
+// artwork as it looks on screen (on white). On, translucent inks take on the body colour,
+// muted on dark garments unless the zone prints a white underbase first.
+export interface ZoneInkSettings {
+  simulate: boolean;
+  underbase: boolean;
+}
+
+export const DEFAULT_ZONE_INK: ZoneInkSettings = { simulate: false, underbase: false };
+
+// The underbase is pulled in from the artwork's edge so the white never peeks out
+const UNDERBASE_CHOKE = 2; // px at 1024 wide
+const UNDERBASE_OPACITY = 0.9; // a single hit of white still lets a little of the shirt through
+
+// Garments whose colour mutes translucent inks enough to want an underbase
+export function isDarkGarment(color: string) {
+  const { r, g, b } = new THREE.Color(color);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b < 0.18;
+}
+
+// Only layers whose ink lets the garment through need white under them
+function needsUnderbase(layer: ZoneLayer) {
+  return layer.visible && layer.opacity > 0 && getLayerInkOpacity(layer) < 1;
+}
+
+export function hasUnderbase(layers: ZoneLayer[]) {
+  return layers.some(needsUnderbase);
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Draw the layer's silhouette filled with one colour, at the layer's opacity
+function drawSilhouette(ctx: CanvasRenderingContext2D, layer: ZoneLayer, image: HTMLImageElement | undefined, pixelScale: number, fill: string) {
+  const { width, height } = ctx.canvas;
+  const silhouette = createCanvas(width, height);
+  const silhouetteCtx = silhouette.getContext('2d')!;
+  silhouetteCtx.save();
+  silhouetteCtx.globalAlpha = layer.opacity;
+  drawZoneLayer(silhouetteCtx, layer, image, pixelScale);
+  silhouetteCtx.restore();
+  silhouetteCtx.globalCompositeOperation = 'source-in';
+  silhouetteCtx.fillStyle = fill;
+  silhouetteCtx.fillRect(0, 0, width, height);
+  ctx.drawImage(silhouette, 0, 0);
+}
+
+// The white plate under every translucent layer, choked by intersecting the plate with
+// copies of itself shifted in eight directions
+export function drawUnderbase(
+  ctx: CanvasRenderingContext2D,
+  layers: ZoneLayer[],
+  images: Map<string, HTMLImageElement>,
+  zoneWidth: number
+) {
+  const { width, height } = ctx.canvas;
+  const pixelScale = width / zoneWidth;
+  const plate = createCanvas(width, height);
+  const plateCtx = plate.getContext('2d')!;
+  for (const layer of layers) {
+    const image = images.get(layer.id);
+    if (!needsUnderbase(layer) || (!layer.text && !image)) continue;
+    drawSilhouette(plateCtx, layer, image, pixelScale, '#ffffff');
+  }
+
+  const choke = Math.max(1, Math.round((UNDERBASE_CHOKE * width) / 1024));
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(plate, 0, 0);
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  for (let step = 0; step < 8; step++) {
+    const angle = (step * Math.PI) / 4;
+    ctx.drawImage(plate, Math.round(Math.cos(angle) * choke), Math.round(Math.sin(angle) * choke));
+  }
+  ctx.restore();
+}
+
+const toLinear = (value: number) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+const LINEAR = Array.from({ length: 256 }, (_, value) => toLinear(value));
+const toByte = (c: number) => Math.round(255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055));
+
+// The zone's artwork as it prints on `garmentColor`: each ink filters the colour beneath
+// it (the garment, or the white underbase over it) in proportion to how translucent it
+// is, so the same red reads true on white and dull brick on black. Same size and alpha
+// as flattenZoneLayers, so it drops in for the 3D texture. Null when nothing is visible.
+export async function flattenInkPreview(
+  layers: ZoneLayer[],
+  zoneSize: { width: number; height: number },
+  garmentColor: string,
+  underbase: boolean,
+  outputWidth = 1024
+): Promise<string | null> {
+  const visibleLayers = layers.filter((layer) => layer.visible && layer.opacity > 0);
+  if (visibleLayers.length === 0) return null;
+
+  const images = await loadZoneLayerImages(visibleLayers, outputWidth);
+  const width = outputWidth;
+  const height = Math.round(outputWidth * (zoneSize.height / zoneSize.width));
+  const pixelScale = width / zoneSize.width;
+
+  const design = createCanvas(width, height);
+  const designCtx = design.getContext('2d')!;
+  drawZoneLayers(designCtx, visibleLayers, images, zoneSize.width);
+
+  // Ink opacity of the topmost layer at each pixel, as grey
+  const opacity = createCanvas(width, height).getContext('2d')!;
+  for (const layer of visibleLayers) {
+    const image = images.get(layer.id);
+    if (!layer.text && !image) continue;
+    const value = Math.round(getLayerInkOpacity(layer) * 255);
+    drawSilhouette(opacity, layer, image, pixelScale, `rgb(${value}, ${value}, ${value})`);
+  }
+
+  const white = createCanvas(width, height).getContext('2d')!;
+  if (underbase) drawUnderbase(white, visibleLayers, images, zoneSize.width);
+
+  const garment = new THREE.Color(garmentColor);
+  const garmentLinear = [garment.r, garment.g, garment.b];
+  const pixels = designCtx.getImageData(0, 0, width, height);
+  const inkOpacity = opacity.getImageData(0, 0, width, height).data;
+  const plate = white.getImageData(0, 0, width, height).data;
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    if (pixels.data[i + 3] === 0) continue;
+    const hide = inkOpacity[i + 3] ? inkOpacity[i] / 255 : 1;
+    const cover = (plate[i + 3] / 255) * UNDERBASE_OPACITY;
+    for (let channel = 0; channel < 3; channel++) {
+      const base = garmentLinear[channel] + (1 - garmentLinear[channel]) * cover;
+      pixels.data[i + channel] = toByte(LINEAR[pixels.data[i + channel]] * (base + (1 - base) * hide));
+    }
+  }
+  designCtx.putImageData(pixels, 0, 0);
+
+  return design.toDataURL('image/png');
+}
+
+// The underbase separation for the printer: black where the white goes, on white, at
+// `outputWidth` pixels. Null when no layer in the stack needs one.
+export async function flattenUnderbase(
+  layers: ZoneLayer[],
+  zoneSize: { width: number; height: number },
+  outputWidth: number
+): Promise<string | null> {
+  const plateLayers = layers.filter(needsUnderbase);
+  if (plateLayers.length === 0) return null;
+
+  const images = await loadZoneLayerImages(plateLayers, outputWidth);
+  const canvas = createCanvas(outputWidth, Math.round(outputWidth * (zoneSize.height / zoneSize.width)));
+  const ctx = canvas.getContext('2d')!;
+  drawUnderbase(ctx, plateLayers, images, zoneSize.width);
+
+  // Film positive: the plate in black over a white sheet
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/png');
+}
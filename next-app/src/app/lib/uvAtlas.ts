@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { loadLayerImage } from './zoneLayers';
+import { loadZoneMask } from './zoneMasks';
+import type { PrintZone, PrintZoneId } from './garments';
+import type { PrintSurfaceMaps } from './printTechniques';
+
+// The UV-atlas path: a zone's design is laid out directly in the zone mesh's UV space
+// (glTF convention, v down the image) and the 3D view maps it as-is, so nothing is
+// projected and the flat design and the model agree pixel for pixel.
+
+export const UV_ATLAS_SIZE = 2048;
+
+export interface UVTextureData {
+  region: PrintZoneId;
+  textureUrl: string;
+  surface?: PrintSurfaceMaps; // print technique and ink effect maps, laid out the same way
+  width: number;
+  height: number;
+  designAspect: number; // of the flattened design fitted into the layout
+}
+
+// Area the zone's UV islands cover, as fractions of the image
+export function getUvBounds(geometry: THREE.BufferGeometry): { x: number; y: number; width: number; height: number } | null {
+  const uv = geometry.attributes.uv;
+  if (!uv || uv.count === 0) return null;
+  let minU = Infinity;
+  let minV = Infinity;
+  let maxU = -Infinity;
+  let maxV = -Infinity;
+  for (let i = 0; i < uv.count; i++) {
+    minU = Math.min(minU, uv.getX(i));
+    maxU = Math.max(maxU, uv.getX(i));
+    minV = Math.min(minV, uv.getY(i));
+    maxV = Math.max(maxV, uv.getY(i));
+  }
+  return { x: minU, y: minV, width: maxU - minU, height: maxV - minV };
+}
+
+// Where the design sits in the zone's UV bounds, in UV units: fitted upright and centred
+function fitDesign(bounds: { x: number; y: number; width: number; height: number }, designAspect: number) {
+  const width = Math.min(bounds.width, bounds.height * designAspect);
+  const height = width / designAspect;
+  return { x: bounds.x + (bounds.width - width) / 2, y: bounds.y + (bounds.height - height) / 2, width, height };
+}
+
+// Inverse of the layout below: where a point of the zone's UV layout falls on the design,
+// as fractions of the design from its centre (+y up)
+export function uvToDesignPoint(mesh: THREE.Mesh, uv: THREE.Vector2, designAspect: number): { x: number; y: number } | null {
+  const bounds = getUvBounds(mesh.geometry);
+  if (!bounds) return null;
+  const fit = fitDesign(bounds, designAspect);
+  return { x: (uv.x - fit.x) / fit.width - 0.5, y: 0.5 - (uv.y - fit.y) / fit.height };
+}
+
+// Lay a flattened zone design (the zone container, edge to edge) into the zone's UV
+// islands: fitted upright and centred in their bounds, then clipped to the printable mask.
+// This assumes the zone is unwrapped as one island, upright (panel up towards −v),
+// unmirrored and evenly scaled; split, turned or stretched islands carry the design cut,
+// turned or squashed. checkUvLayout in modelDiagnostics measures this and the model
+// inspector flags zones that break it.
+export async function composeUvAtlas(zone: PrintZone, mesh: THREE.Mesh, designUrl: string): Promise<UVTextureData | null> {
+  const bounds = getUvBounds(mesh.geometry);
+  if (!bounds) return null;
+  const [design, mask] = await Promise.all([loadLayerImage(designUrl, { cache: false }), loadZoneMask(zone, mesh)]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = UV_ATLAS_SIZE;
+  canvas.height = UV_ATLAS_SIZE;
+  const ctx = canvas.getContext('2d')!;
+
+  const designAspect = design.width / design.height;
+  const fit = fitDesign(bounds, designAspect);
+  ctx.drawImage(design, fit.x * UV_ATLAS_SIZE, fit.y * UV_ATLAS_SIZE, fit.width * UV_ATLAS_SIZE, fit.height * UV_ATLAS_SIZE);
+
+  // The mask is black and white, so it scales alpha rather than compositing
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = UV_ATLAS_SIZE;
+  maskCanvas.height = UV_ATLAS_SIZE;
+  const maskCtx = maskCanvas.getContext('2d')!;
+  maskCtx.drawImage(mask, 0, 0, UV_ATLAS_SIZE, UV_ATLAS_SIZE);
+  const coverage = maskCtx.getImageData(0, 0, UV_ATLAS_SIZE, UV_ATLAS_SIZE).data;
+  const pixels = ctx.getImageData(0, 0, UV_ATLAS_SIZE, UV_ATLAS_SIZE);
+  for (let i = 3; i < pixels.data.length; i += 4) {
+    pixels.data[i] = (pixels.data[i] * coverage[i - 2]) / 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return {
+    region: zone.id,
+    textureUrl: canvas.toDataURL('image/png'),
+    width: UV_ATLAS_SIZE,
+    height: UV_ATLAS_SIZE,
+    designAspect,
+  };
+}
+
+// The print surface maps go through the same layout, so they stay under the design
+export async function composeSurfaceAtlas(zone: PrintZone, mesh: THREE.Mesh, maps: PrintSurfaceMaps): Promise<PrintSurfaceMaps | null> {
+  const [surface, ink, glow] = await Promise.all([
+    composeUvAtlas(zone, mesh, maps.surface),
+    composeUvAtlas(zone, mesh, maps.ink),
+    maps.glow ? composeUvAtlas(zone, mesh, maps.glow) : null,
+  ]);
+  if (!surface || !ink) return null;
+  return { surface: surface.textureUrl, ink: ink.textureUrl, glow: glow?.textureUrl };
+}
@@ -0,0 +1,90 @@
+// SVG uploads stay as markup in the design and are only rasterised when a consumer
+// asks for pixels, at exactly the size that consumer draws them.
+
+export function isSvgFile(file: File): boolean {
+  return file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+}
+
+function parseSvg(markup: string): SVGSVGElement | null {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (!root || root.nodeName.toLowerCase() !== 'svg' || doc.getElementsByTagName('parsererror').length) {
+    return null;
+  }
+  return root as unknown as SVGSVGElement;
+}
+
+// Intrinsic viewport in user units: the viewBox if present, else width/height, else the browser default
+function getViewBox(svg: SVGSVGElement): { x: number; y: number; width: number; height: number } {
+  const viewBox = svg.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] };
+  }
+  const width = parseFloat(svg.getAttribute('width') || '') || 300;
+  const height = parseFloat(svg.getAttribute('height') || '') || 150;
+  return { x: 0, y: 0, width, height };
+}
+
+export function getSvgAspect(markup: string): number {
+  const svg = parseSvg(markup);
+  if (!svg) return 1;
+  const { width, height } = getViewBox(svg);
+  return width / height;
+}
+
+// Crop by narrowing the viewBox, so the artwork stays vector
+export function cropSvg(markup: string, crop: { cropLeft: number; cropRight: number; cropTop: number; cropBottom: number }): string {
+  const svg = parseSvg(markup);
+  if (!svg) return markup;
+
+  const box = getViewBox(svg);
+  const x = box.x + (crop.cropLeft / 100) * box.width;
+  const y = box.y + (crop.cropTop / 100) * box.height;
+  const width = Math.max(1e-3, box.width * (1 - (crop.cropLeft + crop.cropRight) / 100));
+  const height = Math.max(1e-3, box.height * (1 - (crop.cropTop + crop.cropBottom) / 100));
+
+  svg.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  svg.removeAttribute('width');
+  svg.removeAttribute('height');
+  return new XMLSerializer().serializeToString(svg);
+}
+
+export function svgToDataUrl(markup: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
+
+const rasterCache = new Map<string, Promise<HTMLImageElement>>();
+
+// Render the markup at a fixed pixel width (height follows the aspect). Giving the root
+// explicit pixel dimensions makes the browser rasterise at that size instead of scaling
+// up a small intrinsic bitmap.
+export function rasterizeSvg(markup: string, pixelWidth: number): Promise<HTMLImageElement> {
+  const width = Math.max(1, Math.round(pixelWidth));
+  const key = `${width}|${markup}`;
+  let image = rasterCache.get(key);
+  if (!image) {
+    image = new Promise((resolve, reject) => {
+      const svg = parseSvg(markup);
+      if (!svg) {
+        reject(new Error('Invalid SVG markup'));
+        return;
+      }
+      const box = getViewBox(svg);
+      svg.setAttribute('viewBox', `${box.x} ${box.y} ${box.width} ${box.height}`);
+      svg.setAttribute('width', String(width));
+      svg.setAttribute('height', String(Math.max(1, Math.round(width * (box.height / box.width)))));
+
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = svgToDataUrl(new XMLSerializer().serializeToString(svg));
+    });
+    image.catch(() => rasterCache.delete(key));
+    // Sizes change continuously while scaling, so only keep the recent rasters around
+    if (rasterCache.size > 64) {
+      rasterCache.delete(rasterCache.keys().next().value!);
+    }
+    rasterCache.set(key, image);
+  }
+  return image;
+}
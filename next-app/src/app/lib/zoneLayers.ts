@@ -0,0 +1,205 @@
+import { DEFAULT_TEXT_SETTINGS, drawTextLayer, type TextLayerSettings } from './textLayers';
+import { rasterizeSvg } from './vectorArtwork';
+import type { InkEffect, PrintTechnique } from './printTechniques';
+
+// Canvas 2D composite operations offered as layer blend modes
+export type LayerBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'difference';
+
+export const LAYER_BLEND_MODES: { value: LayerBlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'difference', label: 'Difference' },
+];
+
+// One design in a print zone's stack. x/y are the offset of the layer centre from the
+// zone centre in container pixels (+y down), scale is the layer width as a % of the zone width.
+// Text layers have no src; their scale multiplies the font size instead.
+// Vector uploads keep their markup in `svg` (src is then just a thumbnail).
+export interface ZoneLayer {
+  id: string;
+  name: string;
+  src: string;
+  svg?: string;
+  text?: TextLayerSettings;
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number; // degrees
+  opacity: number; // 0..1
+  visible: boolean;
+  blendMode: LayerBlendMode;
+  technique: PrintTechnique; // how the 3D view renders it, the flat artwork is unaffected
+  inkEffect: InkEffect; // likewise
+}
+
+export function createZoneLayer(src: string, name: string, transform?: Partial<Pick<ZoneLayer, 'x' | 'y' | 'scale' | 'rotation'>>): ZoneLayer {
+  return {
+    id: `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    src,
+    x: 0,
+    y: 0,
+    scale: 60,
+    rotation: 0,
+    opacity: 1,
+    visible: true,
+    blendMode: 'normal',
+    technique: 'screenPrint',
+    inkEffect: 'none',
+    ...transform,
+  };
+}
+
+export function createTextLayer(name: string, text: Partial<TextLayerSettings> = {}): ZoneLayer {
+  return {
+    ...createZoneLayer('', name, { scale: 100 }),
+    text: { ...DEFAULT_TEXT_SETTINGS, ...text },
+  };
+}
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+}
+
+// Layer sources are decoded once and kept for the session. One-off images, like a zone
+// flattened moments ago, pass `cache: false` so they can be collected once used.
+export function loadLayerImage(src: string, { cache = true }: { cache?: boolean } = {}): Promise<HTMLImageElement> {
+  if (!cache) return imageCache.get(src) ?? decodeImage(src);
+  let image = imageCache.get(src);
+  if (!image) {
+    image = decodeImage(src);
+    // A failed load shouldn't poison the cache for a retry
+    image.catch(() => imageCache.delete(src));
+    imageCache.set(src, image);
+  }
+  return image;
+}
+
+// One layer at its place on a zone canvas, using the context's current alpha and compositing
+export function drawZoneLayer(ctx: CanvasRenderingContext2D, layer: ZoneLayer, image: HTMLImageElement | undefined, pixelScale: number) {
+  const { width, height } = ctx.canvas;
+  ctx.translate(width / 2 + layer.x * pixelScale, height / 2 + layer.y * pixelScale);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  if (layer.text) {
+    drawTextLayer(ctx, layer.text, pixelScale * (layer.scale / 100));
+  } else if (image) {
+    const drawWidth = width * (layer.scale / 100);
+    const drawHeight = drawWidth * (image.height / image.width);
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  }
+}
+
+// Draw the stack bottom-to-top onto a canvas that represents the whole zone.
+// `zoneWidth` is the container width the layer offsets were measured in, and
+// `images` comes from loadZoneLayerImages for the same canvas width.
+export function drawZoneLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: ZoneLayer[],
+  images: Map<string, HTMLImageElement>,
+  zoneWidth: number
+) {
+  const { width, height } = ctx.canvas;
+  const pixelScale = width / zoneWidth;
+
+  ctx.clearRect(0, 0, width, height);
+  for (const layer of layers) {
+    const image = images.get(layer.id);
+    if (!layer.visible || layer.opacity <= 0 || (!layer.text && !image)) continue;
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    drawZoneLayer(ctx, layer, image, pixelScale);
+    ctx.restore();
+  }
+}
+
+// Topmost visible layer with ink at `point` (container pixels from the zone centre, +y
+// down), for picking a design on the model. Nearly transparent pixels don't count.
+export function findLayerAt(
+  layers: ZoneLayer[],
+  images: Map<string, HTMLImageElement>,
+  zoneSize: { width: number; height: number },
+  point: { x: number; y: number }
+): ZoneLayer | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = zoneSize.width;
+  canvas.height = zoneSize.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const px = Math.floor(zoneSize.width / 2 + point.x);
+  const py = Math.floor(zoneSize.height / 2 + point.y);
+  if (px < 0 || py < 0 || px >= canvas.width || py >= canvas.height) return null;
+
+  for (const layer of [...layers].reverse()) {
+    const image = images.get(layer.id);
+    if (!layer.visible || layer.opacity <= 0 || (!layer.text && !image)) continue;
+    ctx.save();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = layer.opacity;
+    drawZoneLayer(ctx, layer, image, 1);
+    ctx.restore();
+    if (ctx.getImageData(px, py, 1, 1).data[3] > 24) return layer;
+  }
+  return null;
+}
+
+// Pixels for every image layer, keyed by layer id. SVG layers are rasterised at the
+// width they will be drawn on a canvas `canvasWidth` pixels wide.
+export async function loadZoneLayerImages(layers: ZoneLayer[], canvasWidth: number): Promise<Map<string, HTMLImageElement>> {
+  const images = new Map<string, HTMLImageElement>();
+  await Promise.all(
+    layers.filter((layer) => !layer.text).map(async (layer) => {
+      try {
+        const image = layer.svg
+          ? await rasterizeSvg(layer.svg, canvasWidth * (layer.scale / 100))
+          : await loadLayerImage(layer.src);
+        images.set(layer.id, image);
+      } catch (error) {
+        console.warn('❌ Layer image failed to load:', layer.name, error);
+      }
+    })
+  );
+  return images;
+}
+
+// Flatten a zone's stack at `outputWidth` pixels: the 3D zone texture, a high-res
+// export or a print file. Returns null when nothing in the stack is visible.
+export async function flattenZoneLayers(
+  layers: ZoneLayer[],
+  zoneSize: { width: number; height: number },
+  outputWidth = 1024
+): Promise<string | null> {
+  const visibleLayers = layers.filter((layer) => layer.visible && layer.opacity > 0);
+  if (visibleLayers.length === 0) return null;
+
+  const images = await loadZoneLayerImages(visibleLayers, outputWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = outputWidth;
+  canvas.height = Math.round(outputWidth * (zoneSize.height / zoneSize.width));
+  drawZoneLayers(canvas.getContext('2d')!, visibleLayers, images, zoneSize.width);
+
+  return canvas.toDataURL('image/png');
+}
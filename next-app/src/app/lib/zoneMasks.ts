@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import type { PrintZone } from './garments';
+
+// Printable-area masks live in the zone mesh's UV space, laid out the way glTF maps
+// textures (v runs down the image, no flip): white where ink may go, black elsewhere.
+// They are rasterised from the mesh's own UV triangles, so they follow the model
+// whenever it is re-exported; a zone's hand-painted `mask` PNG overrides that.
+
+export const MASK_SIZE = 1024;
+export const DEFAULT_MASK_INSET = 6; // px at MASK_SIZE, keeps ink off seams and hems
+
+const edgeKey = (a: number[], b: number[]) => {
+  const ka = `${a[0].toFixed(5)},${a[1].toFixed(5)}`;
+  const kb = `${b[0].toFixed(5)},${b[1].toFixed(5)}`;
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+};
+
+export function generateZoneMask(geometry: THREE.BufferGeometry, inset = DEFAULT_MASK_INSET): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+
+  const uv = geometry.attributes.uv;
+  if (!uv) return canvas;
+  const index = geometry.index;
+  const count = index ? index.count : uv.count;
+  const toPixel = (vertex: number) => [uv.getX(vertex) * MASK_SIZE, uv.getY(vertex) * MASK_SIZE];
+
+  // Island outline = edges used by a single triangle. Keyed by UV position rather than
+  // vertex index, since exporters split vertices along normal and material seams.
+  const edges = new Map<string, { a: number[]; b: number[]; uses: number }>();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1; // closes the anti-aliased hairlines between neighbouring triangles
+  ctx.lineJoin = 'round';
+  for (let i = 0; i + 2 < count; i += 3) {
+    const corners = [0, 1, 2].map((corner) => toPixel(index ? index.getX(i + corner) : i + corner));
+    ctx.beginPath();
+    ctx.moveTo(corners[0][0], corners[0][1]);
+    ctx.lineTo(corners[1][0], corners[1][1]);
+    ctx.lineTo(corners[2][0], corners[2][1]);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    for (let corner = 0; corner < 3; corner++) {
+      const a = corners[corner];
+      const b = corners[(corner + 1) % 3];
+      const key = edgeKey(a, b);
+      const edge = edges.get(key);
+      if (edge) edge.uses++;
+      else edges.set(key, { a, b, uses: 1 });
+    }
+  }
+
+  // Erode the islands by tracing their outline in black
+  if (inset > 0) {
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = inset * 2;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    edges.forEach(({ a, b, uses }) => {
+      if (uses !== 1) return;
+      ctx.moveTo(a[0], a[1]);
+      ctx.lineTo(b[0], b[1]);
+    });
+    ctx.stroke();
+  }
+
+  return canvas;
+}
+
+// Override PNGs may encode the printable area in alpha or in colour; flattening onto
+// black makes both read the same as a generated mask. They are painted in the same glTF
+// layout (v down the image), so they are drawn as they are, never flipped.
+function loadMaskOverride(src: string): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = MASK_SIZE;
+      canvas.height = MASK_SIZE;
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+      ctx.drawImage(img, 0, 0, MASK_SIZE, MASK_SIZE);
+      resolve(canvas);
+    };
+    img.onerror = reject;
+    img.src = src;
+  });
+}
+
+const maskCache = new WeakMap<THREE.BufferGeometry, Map<string, Promise<HTMLCanvasElement>>>();
+
+export function loadZoneMask(zone: PrintZone, mesh: THREE.Mesh): Promise<HTMLCanvasElement> {
+  const inset = zone.maskInset ?? DEFAULT_MASK_INSET;
+  const key = zone.mask ?? `uv:${inset}`;
+  let masks = maskCache.get(mesh.geometry);
+  if (!masks) {
+    masks = new Map();
+    maskCache.set(mesh.geometry, masks);
+  }
+  let mask = masks.get(key);
+  if (!mask) {
+    mask = zone.mask
+      ? loadMaskOverride(zone.mask).catch((error) => {
+        console.warn(`Mask override ${zone.mask} failed, generating from UVs:`, error);
+        return generateZoneMask(mesh.geometry, inset);
+      })
+      : Promise.resolve(generateZoneMask(mesh.geometry, inset));
+    masks.set(key, mask);
+  }
+  return mask;
+}
+
+const maskTextures = new WeakMap<HTMLCanvasElement, THREE.CanvasTexture>();
+
+// Alpha map for design decals. It samples the decal's `uv1`, which carries the garment
+// surface UVs (see createDesignDecal), so it lines up with the mesh rather than the print.
+// Shared between decals, so it is not disposed with them.
+export async function getZoneMaskTexture(zone: PrintZone, mesh: THREE.Mesh): Promise<THREE.Texture> {
+  const canvas = await loadZoneMask(zone, mesh);
+  let texture = maskTextures.get(canvas);
+  if (!texture) {
+    texture = new THREE.CanvasTexture(canvas);
+    texture.channel = 1;
+    texture.flipY = false;
+    maskTextures.set(canvas, texture);
+  }
+  return texture;
+}
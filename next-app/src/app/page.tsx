@@ -4,6 +4,25 @@ import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import Sidebar from './components/Sidebar';
 import BottomControls from './components/BottomControls';
+import ModelInspector from './components/ModelInspector';
+import type { TextureSettings } from './lib/fabricMaterial';
+import { DEFAULT_LIGHTING_SETTINGS, type LightingSettings } from './lib/lighting';
+import { DEFAULT_FLOOR_SETTINGS, type FloorSettings } from './lib/floor';
+import {
+  DEFAULT_POST_PROCESSING,
+  loadPostProcessing,
+  storePostProcessing,
+  type PostProcessingSettings,
+} from './lib/postProcessing';
+import {
+  DEFAULT_GARMENT,
+  getDefaultColors,
+  loadSelectedGarment,
+  storeSelectedGarment,
+  type GarmentColors,
+  type GarmentDefinition,
+} from './lib/garments';
+import type { ModelReport } from './lib/modelDiagnostics';
 
 interface BackgroundSettings {
   type: 'color' | 'image' | 'gradient';
@@ -28,16 +47,6 @@ interface MotionSettings {
   animationPreset: 'none' | 'subtle' | 'dynamic' | 'presentation';
 }
 
-interface TextureSettings {
-  fabricType: 'cotton' | 'polyester' | 'wool' | 'linen' | 'silk' | 'denim';
-  finish: 'matte' | 'glossy' | 'metallic' | 'pearlescent';
-  pattern: 'none' | 'subtle' | 'bold' | 'geometric' | 'floral';
-  roughness: number;
-  metallic: number;
-  normalStrength: number;
-  preset: 'none' | 'casual' | 'formal' | 'sporty' | 'luxury';
-}
-
 // Dynamically import Scene3D to avoid SSR issues with Three.js
 const Scene3D = dynamic(() => import('./components/Scene3D'), {
   ssr: false,
@@ -52,14 +61,8 @@ const Scene3D = dynamic(() => import('./components/Scene3D'), {
 });
 
 export default function Home() {
-  const [colors, setColors] = useState({
-    body: '#ffffff',
-    neck: '#ffffff',
-    neckBorder: '#ffffff',
-    cuff: '#ffffff',
-    buttons: '#ffffff',
-    ribbedHem: '#ffffff',
-  });
+  const [garment, setGarment] = useState<GarmentDefinition>(DEFAULT_GARMENT);
+  const [colors, setColors] = useState<GarmentColors>(() => getDefaultColors(DEFAULT_GARMENT));
 
   const [background, setBackground] = useState<BackgroundSettings>({
     type: 'color',
@@ -78,6 +81,12 @@ export default function Home() {
     animationPreset: 'none'
   });
 
+  const [lighting, setLighting] = useState<LightingSettings>(DEFAULT_LIGHTING_SETTINGS);
+
+  const [floor, setFloor] = useState<FloorSettings>(DEFAULT_FLOOR_SETTINGS);
+
+  const [postProcessing, setPostProcessing] = useState<PostProcessingSettings>(DEFAULT_POST_PROCESSING);
+
   const [texture, setTexture] = useState<TextureSettings>({
     fabricType: 'cotton',
     finish: 'matte',
@@ -85,20 +94,30 @@ export default function Home() {
     roughness: 0.5,
     metallic: 0.0,
     normalStrength: 0.5,
-    preset: 'none'
+    preset: 'none',
+    patternColor: '#1e3a8a',
+    patternScale: 6,
+    patternRotation: 0
   });
 
   const [scale, setScale] = useState(100);
   const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [showInspector, setShowInspector] = useState(false);
+  const [modelReport, setModelReport] = useState<ModelReport | null>(null);
 
   // Load saved design from localStorage on component mount
   useEffect(() => {
+    const savedGarment = loadSelectedGarment();
+    setGarment(savedGarment);
+    setColors(getDefaultColors(savedGarment));
+    setPostProcessing(loadPostProcessing());
+
     const savedDesign = localStorage.getItem('tshirtDesign');
     if (savedDesign) {
       try {
         const designData = JSON.parse(savedDesign);
         if (designData.colors) {
-          setColors(designData.colors);
+          setColors(prev => ({ ...prev, ...designData.colors }));
         }
         // Note: For a complete implementation, you would also load placedImages
         // and apply them to a more advanced 3D model that supports textures
@@ -108,6 +127,18 @@ export default function Home() {
     }
   }, []);
 
+  // Parts the garments share (body, cuffs...) keep their colour; new parts start at their defaults
+  const handleGarmentChange = (next: GarmentDefinition) => {
+    setGarment(next);
+    setColors(prev => ({ ...getDefaultColors(next), ...prev }));
+    storeSelectedGarment(next);
+  };
+
+  const handlePostProcessingChange = (settings: PostProcessingSettings) => {
+    setPostProcessing(settings);
+    storePostProcessing(settings);
+  };
+
   const handleColorChange = (part: string, color: string) => {
     setColors(prev => ({
       ...prev,
@@ -122,13 +153,21 @@ export default function Home() {
         {/* Left Sidebar */}
         <Sidebar
           className="flex-shrink-0"
+          garment={garment}
           colors={colors}
           background={background}
           motion={motion}
+          lighting={lighting}
+          floor={floor}
+          postProcessing={postProcessing}
           texture={texture}
           onColorChange={handleColorChange}
+          onGarmentChange={handleGarmentChange}
           onBackgroundChange={setBackground}
           onMotionChange={setMotion}
+          onLightingChange={setLighting}
+          onFloorChange={setFloor}
+          onPostProcessingChange={handlePostProcessingChange}
           onTextureChange={setTexture}
         />
 
@@ -149,7 +188,14 @@ export default function Home() {
                   </svg>
                 </button>
                 <div className="h-6 w-px bg-gray-300"></div>
-                <button className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md">
+                <button
+                  onClick={() => setShowInspector(prev => !prev)}
+                  className={`p-2 rounded-md ${showInspector
+                    ? 'text-pink-600 bg-pink-50'
+                    : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+                    }`}
+                  title="Model inspector"
+                >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
                   </svg>
@@ -177,11 +223,24 @@ export default function Home() {
           <div className="flex-1 relative bg-gradient-to-br from-gray-100 to-gray-200">
             <Scene3D
               className="absolute inset-0"
+              garment={garment}
               colors={colors}
               background={background}
               motion={motion}
+              lighting={lighting}
+              floor={floor}
+              postProcessing={postProcessing}
               texture={texture}
+              onModelInspect={setModelReport}
             />
+            {showInspector && (
+              <ModelInspector
+                className="absolute top-4 right-4 bottom-4 w-96 z-10"
+                garment={garment}
+                report={modelReport}
+                onClose={() => setShowInspector(false)}
+              />
+            )}
           </div>
 
           {/* Bottom Controls */}